@@ -0,0 +1,106 @@
+// Inspect and purge the build cache in .cache/
+//
+// Usage:
+//   pnpm cache list
+//   pnpm cache show <key>
+//   pnpm cache purge <key...>
+//   pnpm cache purge --expired
+//   pnpm cache purge --all
+
+import {
+  CACHE_DIR,
+  deleteCache,
+  formatAsOf,
+  inspectCache,
+  listCacheEntries,
+} from '../src/lib/cache.ts';
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours}h`;
+  return `${Math.round(hours / 24)}d`;
+}
+
+function list() {
+  const entries = listCacheEntries();
+  if (entries.length === 0) {
+    console.log(`No cache entries in ${CACHE_DIR}/`);
+    return;
+  }
+
+  const width = Math.max(...entries.map(e => e.key.length));
+  for (const entry of entries) {
+    const age = formatDuration(Date.now() - entry.timestamp);
+    const status = entry.expired ? 'expired' : 'fresh';
+    console.log(
+      [
+        entry.key.padEnd(width),
+        `v${entry.version}`,
+        status.padEnd(7),
+        `${formatAsOf(entry.timestamp)} (${age} old, ttl ${formatDuration(entry.ttlMs)})`,
+        `${Math.ceil(entry.sizeBytes / 1024)} KB`,
+      ].join('  ')
+    );
+  }
+}
+
+function show(key: string | undefined) {
+  if (!key) {
+    console.error('Usage: cache show <key>');
+    process.exit(1);
+  }
+
+  const cached = inspectCache(key);
+  if (!cached) {
+    console.error(`No cache entry for: ${key}`);
+    process.exit(1);
+  }
+  console.log(JSON.stringify(cached, null, 2));
+}
+
+function purge(args: string[]) {
+  let keys: string[];
+  if (args.includes('--all')) {
+    keys = listCacheEntries().map(e => e.key);
+  } else if (args.includes('--expired')) {
+    keys = listCacheEntries()
+      .filter(e => e.expired)
+      .map(e => e.key);
+  } else {
+    keys = args;
+  }
+
+  if (keys.length === 0) {
+    console.error('Usage: cache purge <key...> | --expired | --all');
+    process.exit(1);
+  }
+
+  for (const key of keys) {
+    if (deleteCache(key)) {
+      console.log(`Purged: ${key}`);
+    } else {
+      console.warn(`No cache entry for: ${key}`);
+    }
+  }
+}
+
+const [command, ...args] = process.argv.slice(2);
+
+switch (command) {
+  case 'list':
+  case undefined:
+    list();
+    break;
+  case 'show':
+    show(args[0]);
+    break;
+  case 'purge':
+    purge(args);
+    break;
+  default:
+    console.error(`Unknown command: ${command}`);
+    console.error('Usage: cache [list | show <key> | purge <key...>]');
+    process.exit(1);
+}
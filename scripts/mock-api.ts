@@ -0,0 +1,170 @@
+// Local stand-in for the eigenwallet API and the GitHub releases API.
+//
+// Usage:
+//   pnpm mock-api [--port 8787] [--scenario default|empty|testnet-only|unavailable|rate-limited]
+//
+// Then build against it:
+//   EIGENWALLET_API_BASE=http://localhost:8787/api \
+//   GITHUB_API_BASE=http://localhost:8787 pnpm build
+//
+// The default scenario serves the recorded responses from fixtures/,
+// the other scenarios derive edge cases from them.
+
+import http from 'node:http';
+import { parseArgs } from 'node:util';
+import type { GitHubRelease } from '../src/lib/downloads.ts';
+import { replayFixture } from '../src/lib/fixtures.ts';
+import type { Offer } from '../src/lib/liquidity.ts';
+import * as v from '../src/lib/validate.ts';
+
+const SCENARIOS = [
+  'default',
+  'empty',
+  'testnet-only',
+  'unavailable',
+  'rate-limited',
+] as const;
+type Scenario = (typeof SCENARIOS)[number];
+
+const { values: args } = parseArgs({
+  options: {
+    port: { type: 'string', default: process.env.MOCK_API_PORT || '8787' },
+    scenario: {
+      type: 'string',
+      default: process.env.MOCK_SCENARIO || 'default',
+    },
+  },
+});
+
+const port = parseInt(args.port, 10);
+const scenario = args.scenario as Scenario;
+if (!SCENARIOS.includes(scenario)) {
+  console.error(
+    `Unknown scenario "${scenario}", use one of: ${SCENARIOS.join(', ')}`
+  );
+  process.exit(1);
+}
+
+const EIGENWALLET_ENDPOINTS = [
+  'list',
+  'provider-quote-stats',
+  'provider-daily-swap-bounds',
+  'liquidity-daily',
+  'daily-price-stats',
+];
+
+// Only the fields the scenarios rewrite, the build validates the rest
+const OFFER_SCHEMA: v.Schema<Pick<Offer, 'testnet'>> = {
+  testnet: v.boolean,
+};
+const RELEASE_SCHEMA: v.Schema<Pick<GitHubRelease, 'assets'>> = {
+  assets: v.arrayOf(() => null),
+};
+
+/**
+ * Load the recorded upstream response for a mocked endpoint
+ */
+async function loadFixture(upstreamUrl: string): Promise<unknown> {
+  const response = replayFixture(upstreamUrl);
+  if (!response) {
+    throw new Error(`No fixture recorded for ${upstreamUrl}`);
+  }
+  return response.json();
+}
+
+async function eigenwalletPayload(endpoint: string): Promise<unknown> {
+  if (scenario === 'empty') {
+    return [];
+  }
+
+  const payload = await loadFixture(
+    `https://api.eigenwallet.org/api/${endpoint}`
+  );
+  if (scenario === 'testnet-only' && endpoint === 'list') {
+    return v
+      .validateRecords(payload, OFFER_SCHEMA, 'offers fixture')
+      .map(offer => ({ ...offer, testnet: true }));
+  }
+  return payload;
+}
+
+async function latestReleasePayload(repo: string): Promise<unknown> {
+  const release = await loadFixture(
+    `https://api.github.com/repos/${repo}/releases/latest`
+  );
+  if (scenario === 'empty') {
+    return {
+      ...v.validatePayload(release, RELEASE_SCHEMA, 'release fixture'),
+      assets: [],
+    };
+  }
+  return release;
+}
+
+async function releasesPayload(repo: string, search: string): Promise<unknown> {
+  const releases = await loadFixture(
+    `https://api.github.com/repos/${repo}/releases${search}`
+  );
+  if (scenario === 'empty') {
+    return v
+      .validateRecords(releases, RELEASE_SCHEMA, 'releases fixture')
+      .map(release => ({ ...release, assets: [] }));
+  }
+  return releases;
+}
+
+function sendJson(res: http.ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'content-type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+async function handle(req: http.IncomingMessage, res: http.ServerResponse) {
+  const { pathname, search } = new URL(
+    req.url ?? '/',
+    `http://localhost:${port}`
+  );
+
+  if (scenario === 'unavailable') {
+    return sendJson(res, 503, { message: 'Service Unavailable' });
+  }
+  if (scenario === 'rate-limited') {
+    res.writeHead(429, {
+      'content-type': 'application/json',
+      'retry-after': '5',
+    });
+    return res.end(JSON.stringify({ message: 'Too Many Requests' }));
+  }
+
+  const eigenwallet = pathname.match(/^\/api\/([a-z-]+)$/);
+  if (eigenwallet && EIGENWALLET_ENDPOINTS.includes(eigenwallet[1])) {
+    return sendJson(res, 200, await eigenwalletPayload(eigenwallet[1]));
+  }
+
+  const latest = pathname.match(/^\/repos\/([^/]+\/[^/]+)\/releases\/latest$/);
+  if (latest) {
+    return sendJson(res, 200, await latestReleasePayload(latest[1]));
+  }
+
+  const releases = pathname.match(/^\/repos\/([^/]+\/[^/]+)\/releases$/);
+  if (releases) {
+    return sendJson(res, 200, await releasesPayload(releases[1], search));
+  }
+
+  sendJson(res, 404, { message: 'Not Found' });
+}
+
+http
+  .createServer((req, res) => {
+    console.log(`${req.method} ${req.url}`);
+    handle(req, res).catch(error => {
+      console.error(error);
+      sendJson(res, 500, { message: String(error) });
+    });
+  })
+  .listen(port, () => {
+    console.log(
+      `Mock API (${scenario}) listening on http://localhost:${port}\n` +
+        `  EIGENWALLET_API_BASE=http://localhost:${port}/api\n` +
+        `  GITHUB_API_BASE=http://localhost:${port}`
+    );
+  });
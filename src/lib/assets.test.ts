@@ -0,0 +1,20 @@
+import fs from 'fs';
+import { describe, expect, it } from 'vitest';
+import { parseAssetName, type ParsedAssetName } from './assets';
+
+// Golden table of real release asset names and how they parse. After
+// changing the parser, update the affected entries and review the diff.
+const GOLDEN_PATH = 'fixtures/asset-names.json';
+
+interface GoldenEntry extends ParsedAssetName {
+  name: string;
+  warnings: string[];
+}
+
+const golden: GoldenEntry[] = JSON.parse(fs.readFileSync(GOLDEN_PATH, 'utf-8'));
+
+describe('parseAssetName', () => {
+  it.each(golden)('$name', ({ name, warnings, ...asset }) => {
+    expect(parseAssetName(name)).toEqual({ asset, warnings });
+  });
+});
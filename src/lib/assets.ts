@@ -0,0 +1,176 @@
+// Structured metadata parsed from release asset file names, e.g.
+//   eigenwallet_3.3.0_amd64.AppImage  ->  linux, x86_64, appimage, gui
+//   asb_3.3.0_Darwin_aarch64.tar      ->  macos, arm64, tar, cli (asb)
+//
+// Anything shown to visitors is derived from these values by the download
+// tables, never stored here.
+
+export type AssetOs = 'macos' | 'linux' | 'windows';
+
+export type AssetArch = 'x86_64' | 'arm64' | 'armv7';
+
+export type AssetFormat =
+  | 'dmg'
+  | 'app-bundle' // .app.tar.gz, also used by the Tauri updater
+  | 'appimage'
+  | 'deb'
+  | 'rpm'
+  | 'msi'
+  | 'exe'
+  | 'tar'
+  | 'zip';
+
+/**
+ * - gui: the eigenwallet desktop app (formerly UnstoppableSwap)
+ * - cli: one of the command-line tools in CLI_TOOLS
+ */
+export type AssetChannel = 'gui' | 'cli';
+
+/**
+ * Fields are null when the name does not tell, see the warnings
+ */
+export interface ParsedAssetName {
+  os: AssetOs | null;
+  arch: AssetArch | null;
+  format: AssetFormat | null;
+  channel: AssetChannel | null;
+  tool: string | null; // name of the command-line tool, null for the GUI
+}
+
+export interface AssetNameParse {
+  asset: ParsedAssetName;
+  warnings: string[];
+}
+
+export interface CliTool {
+  name: string; // also the asset name prefix, e.g. "asb_3.3.0_Linux_x86_64.tar"
+  description: string;
+}
+
+/**
+ * Command-line tools published alongside the GUI, in display order
+ */
+export const CLI_TOOLS: CliTool[] = [
+  {
+    name: 'asb',
+    description:
+      'Automated swap backend. Run it to provide liquidity as a maker.',
+  },
+  {
+    name: 'swap',
+    description: 'Command-line client for swapping Bitcoin to Monero.',
+  },
+  {
+    name: 'orchestrator',
+    description:
+      'Interactive setup wizard that generates a Docker Compose deployment for the asb.',
+  },
+  {
+    name: 'rendezvous-server',
+    description: 'Rendezvous node that lets takers discover makers.',
+  },
+];
+
+// The GUI was published as UnstoppableSwap before the rename
+const GUI_PREFIX = /^(eigenwallet|unstoppableswap)[_-]/i;
+
+// Checked in order, `.app.tar.gz` must come before the plain tarballs
+const FORMAT_SUFFIXES: [string, AssetFormat][] = [
+  ['.dmg', 'dmg'],
+  ['.app.tar.gz', 'app-bundle'],
+  ['.appimage', 'appimage'],
+  ['.deb', 'deb'],
+  ['.rpm', 'rpm'],
+  ['.msi', 'msi'],
+  ['.exe', 'exe'],
+  ['.tar', 'tar'],
+  ['.tar.gz', 'tar'],
+  ['.zip', 'zip'],
+];
+
+// Formats that only exist on one OS, for names without an OS token
+const FORMAT_OS: Partial<Record<AssetFormat, AssetOs>> = {
+  dmg: 'macos',
+  'app-bundle': 'macos',
+  appimage: 'linux',
+  deb: 'linux',
+  rpm: 'linux',
+  msi: 'windows',
+  exe: 'windows',
+};
+
+// Whole tokens only: "win" would also match "eigenwallet_...-darwin"
+const OS_TOKENS: [RegExp, AssetOs][] = [
+  [/(^|[_.-])(darwin|macos|apple)([_.-]|$)/, 'macos'],
+  [/(^|[_.-])linux([_.-]|$)/, 'linux'],
+  [/(^|[_.-])windows([_.-]|$)/, 'windows'],
+];
+
+const ARCH_TOKENS: [RegExp, AssetArch][] = [
+  [/(^|[_.-])(x86_64|amd64|x64)([_.-]|$)/, 'x86_64'],
+  [/(^|[_.-])(aarch64|arm64)([_.-]|$)/, 'arm64'],
+  [/(^|[_.-])armv7l?([_.-]|$)/, 'armv7'],
+];
+
+function findToken<T>(name: string, tokens: [RegExp, T][]): T[] {
+  return tokens.filter(([pattern]) => pattern.test(name)).map(([, v]) => v);
+}
+
+function parseFormat(name: string): AssetFormat | null {
+  const match = FORMAT_SUFFIXES.find(([suffix]) => name.endsWith(suffix));
+  return match ? match[1] : null;
+}
+
+function parseChannel(
+  assetName: string
+): Pick<ParsedAssetName, 'channel' | 'tool'> {
+  if (GUI_PREFIX.test(assetName)) {
+    return { channel: 'gui', tool: null };
+  }
+  const tool = CLI_TOOLS.find(t => assetName.startsWith(`${t.name}_`));
+  if (tool) {
+    return { channel: 'cli', tool: tool.name };
+  }
+  return { channel: null, tool: null };
+}
+
+/**
+ * Parse a release asset file name. Never throws, unrecognized parts are
+ * left null and explained in `warnings`.
+ */
+export function parseAssetName(assetName: string): AssetNameParse {
+  const name = assetName.toLowerCase();
+  const warnings: string[] = [];
+
+  const format = parseFormat(name);
+  if (!format) {
+    warnings.push('unknown file format');
+  }
+
+  const osTokens = findToken(name, OS_TOKENS);
+  const formatOs = format ? (FORMAT_OS[format] ?? null) : null;
+  let os = osTokens.length === 1 ? osTokens[0] : formatOs;
+  if (osTokens.length > 1) {
+    warnings.push(`ambiguous OS (${osTokens.join(', ')})`);
+  } else if (formatOs && os !== formatOs) {
+    warnings.push(`.${format} files are for ${formatOs}, not ${os}`);
+    os = null;
+  } else if (!os) {
+    warnings.push('unknown OS');
+  }
+
+  const archTokens = findToken(name, ARCH_TOKENS);
+  const arch = archTokens.length === 1 ? archTokens[0] : null;
+  if (archTokens.length > 1) {
+    warnings.push(`ambiguous architecture (${archTokens.join(', ')})`);
+  } else if (!arch) {
+    warnings.push('unknown architecture');
+  }
+
+  const { channel, tool } = parseChannel(assetName);
+  if (!channel) {
+    warnings.push('neither the GUI nor a known command-line tool');
+  }
+
+  return { asset: { os, arch, format, channel, tool }, warnings };
+}
@@ -1,12 +1,46 @@
 import fs from 'fs';
 import path from 'path';
 
-const CACHE_DIR = '.cache';
-const CACHE_DURATION_MS = 10 * 60 * 1000; // 10 minutes
+export const CACHE_DIR = '.cache';
+const DEFAULT_TTL_MS = 10 * 60 * 1000; // 10 minutes
+const DEFAULT_SCHEMA_VERSION = 1;
+
+// Record/replay builds must reach fetchWithRetry for every request,
+// so the cache is bypassed entirely while FIXTURES is set
+const CACHE_DISABLED = !!process.env.FIXTURES;
+
+export interface CacheOptions {
+  ttlMs?: number; // how long an entry counts as fresh
+  version?: number; // schema version of the cached data, bump when its shape changes
+}
 
 interface CachedData<T> {
   data: T;
   timestamp: number;
+  ttlMs: number;
+  version: number;
+}
+
+/**
+ * Data handed to callers together with the time it was originally fetched.
+ * `stale` is set when an expired entry was served because the live request failed.
+ */
+export interface TimestampedData<T> {
+  data: T;
+  timestamp: number;
+  stale: boolean;
+}
+
+/**
+ * Summary of a cache file, as shown by the cache CLI
+ */
+export interface CacheEntryInfo {
+  key: string;
+  timestamp: number;
+  ttlMs: number;
+  version: number;
+  expired: boolean;
+  sizeBytes: number;
 }
 
 function ensureCacheDir() {
@@ -19,7 +53,7 @@ function getCacheFilePath(key: string): string {
   return path.join(CACHE_DIR, `${key}.json`);
 }
 
-export function getCache<T>(key: string): T | null {
+function readCacheFile<T>(key: string): CachedData<T> | null {
   try {
     const cachePath = getCacheFilePath(key);
     if (!fs.existsSync(cachePath)) {
@@ -27,33 +61,162 @@ export function getCache<T>(key: string): T | null {
     }
 
     const content = fs.readFileSync(cachePath, 'utf-8');
-    const cached: CachedData<T> = JSON.parse(content);
-
-    const now = Date.now();
-    if (now - cached.timestamp < CACHE_DURATION_MS) {
-      console.log(`Using cached data for: ${key}`);
-      return cached.data;
-    } else {
-      console.log(`Cache expired for: ${key}`);
-      return null;
-    }
+    return JSON.parse(content) as CachedData<T>;
   } catch (error) {
     console.warn(`Failed to read cache for ${key}:`, error);
     return null;
   }
 }
 
-export function setCache<T>(key: string, data: T): void {
+function isExpired(cached: CachedData<unknown>, ttlMs?: number): boolean {
+  const ttl = ttlMs ?? cached.ttlMs ?? DEFAULT_TTL_MS;
+  return Date.now() - cached.timestamp >= ttl;
+}
+
+/**
+ * Get a cache entry with its timestamp.
+ * Entries written with a different schema version are always rejected;
+ * expired entries are only returned when `allowStale` is set.
+ */
+export function getCacheEntry<T>(
+  key: string,
+  {
+    allowStale = false,
+    ttlMs,
+    version = DEFAULT_SCHEMA_VERSION,
+  }: CacheOptions & { allowStale?: boolean } = {}
+): TimestampedData<T> | null {
+  if (CACHE_DISABLED) {
+    return null;
+  }
+
+  const cached = readCacheFile<T>(key);
+  if (!cached) {
+    return null;
+  }
+
+  if (cached.version !== version) {
+    console.log(
+      `Cache schema mismatch for: ${key} (found v${cached.version ?? '?'}, expected v${version})`
+    );
+    return null;
+  }
+
+  if (!isExpired(cached, ttlMs)) {
+    console.log(`Using cached data for: ${key}`);
+    return { data: cached.data, timestamp: cached.timestamp, stale: false };
+  }
+
+  if (allowStale) {
+    console.warn(
+      `Serving stale cached data for: ${key} (from ${formatAsOf(cached.timestamp)})`
+    );
+    return { data: cached.data, timestamp: cached.timestamp, stale: true };
+  }
+
+  console.log(`Cache expired for: ${key}`);
+  return null;
+}
+
+export function getCache<T>(key: string, options?: CacheOptions): T | null {
+  return getCacheEntry<T>(key, options)?.data ?? null;
+}
+
+/**
+ * Fallback for when a live request failed: returns the last cached entry
+ * regardless of its age, or null if nothing usable was ever cached.
+ */
+export function getStaleCache<T>(
+  key: string,
+  options?: CacheOptions
+): TimestampedData<T> | null {
+  return getCacheEntry<T>(key, { ...options, allowStale: true });
+}
+
+/**
+ * Write a cache entry. The file is written to a temporary path first and
+ * renamed into place, so an interrupted build never leaves half-written JSON.
+ */
+export function setCache<T>(
+  key: string,
+  data: T,
+  {
+    ttlMs = DEFAULT_TTL_MS,
+    version = DEFAULT_SCHEMA_VERSION,
+  }: CacheOptions = {}
+): TimestampedData<T> {
+  const cached: CachedData<T> = {
+    data,
+    timestamp: Date.now(),
+    ttlMs,
+    version,
+  };
+  if (CACHE_DISABLED) {
+    return { data, timestamp: cached.timestamp, stale: false };
+  }
+
   try {
     ensureCacheDir();
     const cachePath = getCacheFilePath(key);
-    const cached: CachedData<T> = {
-      data,
-      timestamp: Date.now(),
-    };
-    fs.writeFileSync(cachePath, JSON.stringify(cached, null, 2));
+    const tempPath = `${cachePath}.${process.pid}.tmp`;
+    fs.writeFileSync(tempPath, JSON.stringify(cached, null, 2));
+    fs.renameSync(tempPath, cachePath);
     console.log(`Cached data for: ${key}`);
   } catch (error) {
     console.warn(`Failed to write cache for ${key}:`, error);
   }
+  return { data, timestamp: cached.timestamp, stale: false };
+}
+
+/**
+ * List all entries in the cache directory
+ */
+export function listCacheEntries(): CacheEntryInfo[] {
+  if (!fs.existsSync(CACHE_DIR)) {
+    return [];
+  }
+
+  return fs
+    .readdirSync(CACHE_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => {
+      const key = file.slice(0, -'.json'.length);
+      const cached = readCacheFile<unknown>(key);
+      return {
+        key,
+        timestamp: cached?.timestamp ?? 0,
+        ttlMs: cached?.ttlMs ?? DEFAULT_TTL_MS,
+        version: cached?.version ?? 0,
+        expired: cached ? isExpired(cached) : true,
+        sizeBytes: fs.statSync(getCacheFilePath(key)).size,
+      };
+    })
+    .sort((a, b) => a.key.localeCompare(b.key));
+}
+
+/**
+ * Read a raw cache entry without any expiry or version checks
+ */
+export function inspectCache(key: string): unknown {
+  return readCacheFile<unknown>(key);
+}
+
+/**
+ * Remove a cache entry. Returns false if there was nothing to remove.
+ */
+export function deleteCache(key: string): boolean {
+  const cachePath = getCacheFilePath(key);
+  if (!fs.existsSync(cachePath)) {
+    return false;
+  }
+  fs.unlinkSync(cachePath);
+  return true;
+}
+
+/**
+ * Format a cache timestamp for "data as of" notices, e.g. "2025-01-31 14:05 UTC"
+ */
+export function formatAsOf(timestamp: number): string {
+  const iso = new Date(timestamp).toISOString();
+  return `${iso.slice(0, 10)} ${iso.slice(11, 16)} UTC`;
 }
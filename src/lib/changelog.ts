@@ -0,0 +1,232 @@
+import { marked, type Token, type Tokens } from 'marked';
+import {
+  getCacheEntry,
+  getStaleCache,
+  setCache,
+  type CacheOptions,
+  type TimestampedData,
+} from './cache';
+import { GITHUB_REPO } from './config';
+import { describeFetchError, fetchWithRetry } from './fetch';
+import { reportFallback, reportHealth, type DataSource } from './health';
+import { html, safeUrl, SafeHtml } from './html';
+import { memoize } from './memo';
+
+// CHANGELOG.md of the core repository, in Keep a Changelog format
+// (https://keepachangelog.com/en/1.0.0/):
+//
+//   ## [3.3.0] - 2025-11-20
+//   ### Added
+//   - GUI: ...
+
+const CHANGELOG_URL = `https://raw.githubusercontent.com/${GITHUB_REPO}/refs/heads/master/CHANGELOG.md`;
+export const CHANGELOG_GITHUB_URL = `https://github.com/${GITHUB_REPO}/blob/master/CHANGELOG.md`;
+const CACHE_KEY = 'changelog';
+
+// Bump `version` whenever the shape of the cached data changes
+const CACHE_OPTIONS: CacheOptions = { ttlMs: 60 * 60 * 1000, version: 3 };
+
+const CHANGELOG_SOURCE: DataSource = { id: CACHE_KEY, label: 'Changelog' };
+
+/**
+ * Data sources behind the changelog page
+ */
+export const CHANGELOG_SOURCES: DataSource[] = [CHANGELOG_SOURCE];
+
+export const CHANGELOG_SECTIONS = [
+  'Added',
+  'Changed',
+  'Deprecated',
+  'Removed',
+  'Fixed',
+  'Security',
+] as const;
+
+// "Notes" collects content outside of the standard sections
+export type ChangelogSectionName =
+  (typeof CHANGELOG_SECTIONS)[number] | 'Notes';
+
+export interface ChangelogEntry {
+  version: string; // e.g. "3.3.0", or "Unreleased"
+  date: string | null; // YYYY-MM-DD, null if unreleased
+  anchor: string; // id of the entry on /changelog
+  releaseUrl: string | null; // null if unreleased
+  // Rendered HTML of each section: lists, code blocks, tables, ...
+  sections: Partial<Record<ChangelogSectionName, string>>;
+}
+
+// "[3.3.0] - 2025-11-20", "3.3.0 - 2025-11-20" or "[Unreleased]"
+const VERSION_HEADING = /^\[?([^\]\s]+)\]?(?:\s+-\s+(\d{4}-\d{2}-\d{2}))?/;
+
+function isSectionName(title: string): title is ChangelogSectionName {
+  return (CHANGELOG_SECTIONS as readonly string[]).includes(title);
+}
+
+function createEntry(heading: string): ChangelogEntry | null {
+  const match = heading.match(VERSION_HEADING);
+  if (!match) {
+    return null;
+  }
+  const unreleased = match[1].toLowerCase() === 'unreleased';
+  const version = unreleased ? 'Unreleased' : match[1].replace(/^v/, '');
+  return {
+    version,
+    date: match[2] ?? null,
+    anchor: unreleased ? 'unreleased' : version,
+    releaseUrl: unreleased
+      ? null
+      : `https://github.com/${GITHUB_REPO}/releases/tag/${encodeURIComponent(version)}`,
+    sections: {},
+  };
+}
+
+/**
+ * Entries of a Keep a Changelog file, newest first. Throws if the file
+ * has no version headings at all.
+ */
+export function parseChangelog(markdown: string): ChangelogEntry[] {
+  const entries: ChangelogEntry[] = [];
+  // Tokens of each section, rendered once the whole entry is collected
+  const tokens = new Map<
+    ChangelogEntry,
+    Partial<Record<ChangelogSectionName, Token[]>>
+  >();
+  // Null in the preamble before the first version
+  let current: Partial<Record<ChangelogSectionName, Token[]>> | null = null;
+  let section: ChangelogSectionName = 'Notes';
+
+  for (const token of marked.lexer(markdown) as Token[]) {
+    const heading = token.type === 'heading' ? (token as Tokens.Heading) : null;
+    if (heading && heading.depth <= 2) {
+      const entry = heading.depth === 2 ? createEntry(heading.text) : null;
+      current = null;
+      section = 'Notes';
+      if (entry) {
+        current = {};
+        entries.push(entry);
+        tokens.set(entry, current);
+      } else if (heading.depth === 2) {
+        console.warn(`Skipping changelog heading "${heading.text}"`);
+      }
+    } else if (heading?.depth === 3) {
+      section = isSectionName(heading.text) ? heading.text : 'Notes';
+    } else if (current && token.type !== 'space') {
+      // Everything else is content of the section, deeper headings included
+      (current[section] ??= []).push(token);
+    }
+  }
+
+  for (const [entry, sections] of tokens) {
+    for (const [name, sectionTokens] of Object.entries(sections)) {
+      entry.sections[name as ChangelogSectionName] = marked
+        .parser(sectionTokens)
+        .trim();
+    }
+  }
+
+  if (entries.length === 0) {
+    throw new Error('no versions found in the changelog');
+  }
+  return entries;
+}
+
+/**
+ * Fetch and parse CHANGELOG.md with caching. Falls back to the last cached
+ * changelog if GitHub is unavailable, null if there is none.
+ */
+export function fetchChangelog(): Promise<TimestampedData<
+  ChangelogEntry[]
+> | null> {
+  return memoize(CACHE_KEY, loadChangelog);
+}
+
+async function loadChangelog(): Promise<TimestampedData<
+  ChangelogEntry[]
+> | null> {
+  const cached = getCacheEntry<ChangelogEntry[]>(CACHE_KEY, CACHE_OPTIONS);
+  if (cached) {
+    return reportHealth(CHANGELOG_SOURCE, 'cached', cached);
+  }
+
+  let entries: ChangelogEntry[];
+  try {
+    const response = await fetchWithRetry(CHANGELOG_URL);
+    entries = parseChangelog(await response.text());
+  } catch (error) {
+    console.warn('Failed to fetch changelog:', describeFetchError(error));
+    return reportFallback(
+      CHANGELOG_SOURCE,
+      getStaleCache(CACHE_KEY, CACHE_OPTIONS),
+      error
+    );
+  }
+
+  return reportHealth(
+    CHANGELOG_SOURCE,
+    'fresh',
+    setCache(CACHE_KEY, entries, CACHE_OPTIONS)
+  );
+}
+
+/**
+ * The changelog entry of `version`, null if it has none
+ */
+export async function fetchReleaseNotes(
+  version: string
+): Promise<ChangelogEntry | null> {
+  const changelog = await fetchChangelog();
+  const normalized = version.replace(/^v/, '');
+  return changelog?.data.find(entry => entry.version === normalized) ?? null;
+}
+
+// Sections are rendered markdown from our own repository, like the whole
+// file was before it was parsed
+function renderSection(section: string): SafeHtml {
+  return new SafeHtml(section);
+}
+
+/**
+ * The sections of `entry` under their headings. `headingLevel` is the
+ * level of the section headings.
+ */
+export function renderChangelogSections(
+  entry: ChangelogEntry,
+  headingLevel: 3 | 4 = 3
+): SafeHtml {
+  const sections = [...CHANGELOG_SECTIONS, 'Notes' as const].flatMap(name => {
+    const section = entry.sections[name];
+    if (!section) {
+      return [];
+    }
+    if (name === 'Notes') {
+      return [renderSection(section)];
+    }
+    return [
+      html`<h${headingLevel}>${name}</h${headingLevel}>${renderSection(section)}`,
+    ];
+  });
+  return html`${sections}`;
+}
+
+function hasContent(entry: ChangelogEntry): boolean {
+  return Object.values(entry.sections).some(section => !!section);
+}
+
+/**
+ * The notes of the release on the download page, with a link to the
+ * full changelog. Empty when the changelog has no notes for the version.
+ */
+export function generateReleaseNotes(entry: ChangelogEntry | null): string {
+  if (!entry || !hasContent(entry)) {
+    return '';
+  }
+  return html`<details class="release-notes">
+    <summary>What's new in v${entry.version}</summary>
+    ${renderChangelogSections(entry, 4)}
+    <p>
+      <a href="${safeUrl(`/changelog#${encodeURIComponent(entry.anchor)}`)}"
+        >Full changelog</a
+      >
+    </p>
+  </details>`.toString();
+}
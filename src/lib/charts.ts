@@ -0,0 +1,337 @@
+import * as vega from 'vega';
+import * as vl from 'vega-lite';
+import type { InteractiveChart } from './interactive-charts';
+
+// Declarative time-series charts, rendered to static SVG at build time
+// with Vega-Lite. A chart is one or more series on a shared date axis,
+// optionally with shaded bands and dated annotations:
+//
+//   renderTimeSeriesChart({
+//     name: 'liquidity',
+//     unit: 'BTC',
+//     axisFormat: '.0f',
+//     series: [{ label: 'Liquidity', color: '#ff6b35', fill: true, points }],
+//   })
+
+export interface TimePoint {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+export interface ChartSeries {
+  label: string; // legend and tooltip label
+  color: string;
+  points: TimePoint[]; // oldest first
+  fill?: boolean; // shade the area below the line
+}
+
+/**
+ * A shaded range between two values per date, e.g. daily low and high
+ */
+export interface ChartBand {
+  label: string;
+  color: string;
+  points: { date: string; low: number; high: number }[]; // oldest first
+  opacity?: number;
+}
+
+/**
+ * A vertical marker at a date, e.g. a release
+ */
+export interface ChartAnnotation {
+  date: string; // YYYY-MM-DD
+  label: string;
+}
+
+export interface ChartTheme {
+  labelColor: string;
+  labelFontSize: number;
+  annotationColor: string;
+  fillOpacity: number;
+  strokeWidth: number;
+}
+
+export interface TimeSeriesChartOptions {
+  name: string; // for log messages, e.g. "liquidity"
+  series: ChartSeries[];
+  bands?: ChartBand[];
+  annotations?: ChartAnnotation[];
+  unit: string; // appended to the value axis labels, e.g. "BTC"
+  axisFormat: string; // d3 format of the value axis labels, e.g. ".2f"
+  valueFormat?: string; // d3 format of exact values, defaults to axisFormat
+  hideZeroLabel?: boolean; // leave the label at 0 blank
+  scale?: 'linear' | 'log';
+  zero?: boolean; // include zero in a linear value axis, default true
+  dateFormat?: string; // d3 time format of the date axis labels
+  width?: number;
+  height?: number;
+  theme?: Partial<ChartTheme>;
+  emptyMessage?: string; // shown when there are no points at all
+}
+
+export const DEFAULT_CHART_THEME: ChartTheme = {
+  labelColor: '#666',
+  labelFontSize: 14,
+  annotationColor: '#888',
+  fillOpacity: 0.15,
+  strokeWidth: 2,
+};
+
+/**
+ * Placeholder in the size and style of a chart
+ */
+export function createFallbackSvg(message = 'No data available'): string {
+  return `<svg viewBox="0 0 800 200" preserveAspectRatio="xMidYMid meet" style="width:100%; height:auto; display:block;">
+  <text x="400" y="100" text-anchor="middle" fill="#666">${message}</text>
+</svg>`;
+}
+
+function hasData(options: TimeSeriesChartOptions): boolean {
+  return (
+    options.series.some(series => series.points.length > 0) ||
+    (options.bands ?? []).some(band => band.points.length > 0)
+  );
+}
+
+/**
+ * The Vega-Lite spec of a time-series chart
+ */
+export function createTimeSeriesSpec(
+  options: TimeSeriesChartOptions
+): vl.TopLevelSpec {
+  const theme = { ...DEFAULT_CHART_THEME, ...options.theme };
+  const log = options.scale === 'log';
+  const axis = {
+    labelFontSize: theme.labelFontSize,
+    labelColor: theme.labelColor,
+    tickColor: 'transparent',
+    domainColor: 'transparent',
+    grid: false,
+  };
+
+  const x = {
+    title: null,
+    field: 'date',
+    type: 'temporal' as const,
+    axis: { ...axis, format: options.dateFormat ?? '%b %d', labelAngle: 0 },
+  };
+  const zeroCheck = options.hideZeroLabel ? 'datum.value == 0 ? "" : ' : '';
+  const yAxis = {
+    ...axis,
+    labelExpr: `${zeroCheck}format(datum.value, "${options.axisFormat}") + " ${options.unit}"`,
+  };
+  const yScale = log
+    ? { type: 'log' as const }
+    : { zero: options.zero ?? true };
+  // Log scales cannot show zero or negative values
+  const visible = (value: number) => !log || value > 0;
+
+  const series = options.series.filter(s => s.points.length > 0);
+  const rows = series.flatMap(s =>
+    s.points
+      .filter(point => visible(point.value))
+      .map(point => ({ ...point, series: s.label, fill: !!s.fill }))
+  );
+  const color = {
+    field: 'series',
+    type: 'nominal' as const,
+    scale: {
+      domain: series.map(s => s.label),
+      range: series.map(s => s.color),
+    },
+    legend:
+      series.length > 1
+        ? {
+            title: null,
+            orient: 'top' as const,
+            labelFontSize: theme.labelFontSize,
+            labelColor: theme.labelColor,
+          }
+        : null,
+  };
+
+  const layers: Extract<vl.TopLevelSpec, { layer: unknown }>['layer'] = [
+    ...(options.bands ?? []).map(band => ({
+      data: {
+        values: band.points.filter(p => visible(p.low) && visible(p.high)),
+      },
+      mark: {
+        type: 'area' as const,
+        color: band.color,
+        opacity: band.opacity ?? theme.fillOpacity,
+      },
+      encoding: {
+        x,
+        y: {
+          title: null,
+          field: 'low',
+          type: 'quantitative' as const,
+          scale: yScale,
+          axis: yAxis,
+        },
+        y2: { field: 'high' },
+      },
+    })),
+  ];
+
+  if (rows.some(row => row.fill)) {
+    layers.push({
+      data: { values: rows },
+      transform: [{ filter: 'datum.fill' }],
+      mark: { type: 'area', opacity: theme.fillOpacity, line: false },
+      encoding: {
+        x,
+        y: {
+          title: null,
+          field: 'value',
+          type: 'quantitative',
+          stack: null,
+          scale: yScale,
+          axis: yAxis,
+        },
+        color,
+      },
+    });
+  }
+
+  if (rows.length > 0) {
+    layers.push({
+      data: { values: rows },
+      mark: {
+        type: 'line',
+        strokeWidth: theme.strokeWidth,
+        strokeCap: 'round',
+        strokeJoin: 'round',
+      },
+      encoding: {
+        x,
+        y: {
+          title: null,
+          field: 'value',
+          type: 'quantitative',
+          scale: yScale,
+          axis: yAxis,
+        },
+        color,
+      },
+    });
+  }
+
+  const annotations = options.annotations ?? [];
+  if (annotations.length > 0) {
+    layers.push(
+      {
+        data: { values: annotations },
+        mark: {
+          type: 'rule',
+          color: theme.annotationColor,
+          strokeDash: [4, 4],
+        },
+        encoding: { x },
+      },
+      {
+        data: { values: annotations },
+        mark: {
+          type: 'text',
+          color: theme.annotationColor,
+          fontSize: theme.labelFontSize - 2,
+          align: 'left',
+          baseline: 'top',
+          dx: 4,
+          y: 0,
+        },
+        encoding: { x, text: { field: 'label' } },
+      }
+    );
+  }
+
+  return {
+    $schema: 'https://vega.github.io/schema/vega-lite/v5.json',
+    width: options.width ?? 750,
+    height: options.height ?? 400,
+    background: 'transparent',
+    padding: { left: 0, right: 0, top: 0, bottom: 0 },
+    layer: layers,
+  };
+}
+
+/**
+ * Render any Vega-Lite spec to an SVG that scales with its container,
+ * or a placeholder if rendering fails
+ */
+export async function renderChartSvg(
+  spec: vl.TopLevelSpec,
+  name: string
+): Promise<string> {
+  try {
+    const vegaSpec = vl.compile(spec).spec;
+    const view = new vega.View(vega.parse(vegaSpec), { renderer: 'none' });
+    const svg = await view.toSVG();
+    // Remove fixed width/height and make responsive using viewBox
+    return svg
+      .replace(/\s*width="[^"]*"/, '')
+      .replace(/\s*height="[^"]*"/, '')
+      .replace(
+        '<svg',
+        '<svg style="width: 100%; height: auto; display: block;"'
+      );
+  } catch (error) {
+    console.error(`Failed to generate ${name} chart:`, error);
+    return createFallbackSvg('Chart generation failed');
+  }
+}
+
+/**
+ * Render a time-series chart to SVG, a placeholder if it has no data
+ */
+export async function renderTimeSeriesChart(
+  options: TimeSeriesChartOptions
+): Promise<string> {
+  if (!hasData(options)) {
+    return createFallbackSvg(options.emptyMessage);
+  }
+  return renderChartSvg(createTimeSeriesSpec(options), options.name);
+}
+
+// Why the interactive view cannot show `options`, null if it can. It
+// draws a single series, optionally within one band, on a linear scale.
+function getInteractiveLimitation(
+  options: TimeSeriesChartOptions
+): string | null {
+  if (options.series.length > 1) return 'more than one series';
+  if ((options.bands ?? []).length > 1) return 'more than one band';
+  if ((options.annotations ?? []).length > 0) return 'annotations';
+  if (options.scale === 'log') return 'a log scale';
+  return null;
+}
+
+/**
+ * The chart for client-side enhancement, see interactive-charts.ts.
+ * Null if the series has no points, or if the interactive view would
+ * leave out part of the chart; the static SVG then stays in place.
+ */
+export function toInteractiveChart(
+  options: TimeSeriesChartOptions
+): InteractiveChart | null {
+  const [series] = options.series;
+  if (!series || series.points.length === 0) {
+    return null;
+  }
+  const limitation = getInteractiveLimitation(options);
+  if (limitation) {
+    console.warn(
+      `The ${options.name} chart has ${limitation}, keeping it static`
+    );
+    return null;
+  }
+
+  const band = options.bands?.[0];
+  return {
+    label: series.label,
+    unit: options.unit,
+    format: options.valueFormat ?? options.axisFormat,
+    color: series.color,
+    points: series.points,
+    band: band && band.points.length > 0 ? band.points : undefined,
+  };
+}
@@ -0,0 +1,34 @@
+import 'dotenv/config';
+
+// Upstream API locations. Override them to build against a staging
+// instance, a local indexer or the mock server (`pnpm mock-api`).
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Base URL of the eigenwallet API, without trailing slash
+ */
+export const EIGENWALLET_API_BASE = trimTrailingSlash(
+  process.env.EIGENWALLET_API_BASE || 'https://api.eigenwallet.org/api'
+);
+
+/**
+ * Base URL of the GitHub REST API, without trailing slash
+ */
+export const GITHUB_API_BASE = trimTrailingSlash(
+  process.env.GITHUB_API_BASE || 'https://api.github.com'
+);
+
+/**
+ * GitHub repository that publishes eigenwallet releases, as "owner/name"
+ */
+export const GITHUB_REPO = process.env.GITHUB_REPO || 'eigenwallet/core';
+
+/**
+ * Public URL of this site, without trailing slash. Feeds need absolute links.
+ */
+export const SITE_URL = trimTrailingSlash(
+  process.env.SITE_URL || 'https://eigenwallet.org'
+);
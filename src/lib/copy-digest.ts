@@ -0,0 +1,17 @@
+// Client-side: copy buttons next to the SHA-256 digests in the download tables
+
+export function setupDigestCopyButtons(): void {
+  const buttons =
+    document.querySelectorAll<HTMLButtonElement>('button.copy-digest');
+  for (const button of buttons) {
+    button.addEventListener('click', async () => {
+      try {
+        await navigator.clipboard.writeText(button.dataset.digest ?? '');
+        button.textContent = 'Copied';
+      } catch {
+        button.textContent = 'Copy failed';
+      }
+      setTimeout(() => (button.textContent = 'Copy'), 1500);
+    });
+  }
+}
@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import { getCache, setCache, type CacheOptions } from './cache';
+import type { GitHubAsset } from './downloads';
+import { describeFetchError, fetchStream, fetchWithRetry } from './fetch';
+import { memoize } from './memo';
+
+// SHA-256 digests of release assets. Sources, in order of preference:
+//   1. the `digest` GitHub computes for every uploaded asset
+//   2. a checksums file published with the release (e.g. SHA256SUMS)
+//   3. hashing the downloaded asset at build time, or reusing the hash
+//      taken while verifying its signature (see signatures.ts)
+
+// Matches SHA256SUMS, SHA256SUMS.txt, checksums.txt, eigenwallet_3.3.0_checksums.txt, ...
+const CHECKSUMS_FILE_PATTERN = /(^|[._-])(sha256sums|checksums)(\.txt)?$/i;
+
+// Released assets never change, so computed digests are kept for a long time
+const DIGEST_CACHE_OPTIONS: CacheOptions = {
+  ttlMs: 30 * 24 * 60 * 60 * 1000,
+  version: 1,
+};
+
+// Release artifacts are large, allow more time than for API requests
+const ASSET_DOWNLOAD_TIMEOUT_MS = 5 * 60 * 1000;
+
+// Digests hashed by digestAssetStream during this build, by download URL.
+// Also set while the build cache is disabled (FIXTURES).
+const streamedDigests = new Map<string, string>();
+
+export function isChecksumsFile(assetName: string): boolean {
+  return CHECKSUMS_FILE_PATTERN.test(assetName);
+}
+
+/**
+ * Parse `sha256sum` output: "<hex digest>  <file name>" per line,
+ * with an optional "*" marking binary mode
+ */
+export function parseChecksums(text: string): Map<string, string> {
+  const checksums = new Map<string, string>();
+  for (const line of text.split('\n')) {
+    const match = line.trim().match(/^([0-9a-f]{64})\s+\*?(.+)$/i);
+    if (match) {
+      checksums.set(match[2].trim(), match[1].toLowerCase());
+    }
+  }
+  return checksums;
+}
+
+/**
+ * GitHub reports digests as "sha256:<hex digest>"
+ */
+function parseGitHubDigest(digest: string | null): string | null {
+  const match = digest?.match(/^sha256:([0-9a-f]{64})$/i);
+  return match ? match[1].toLowerCase() : null;
+}
+
+function fetchChecksumsFile(asset: GitHubAsset): Promise<Map<string, string>> {
+  return memoize(`checksums-${asset.browser_download_url}`, async () => {
+    try {
+      const response = await fetchWithRetry(asset.browser_download_url);
+      return parseChecksums(await response.text());
+    } catch (error) {
+      console.warn(
+        `Failed to fetch checksums file ${asset.name}:`,
+        describeFetchError(error)
+      );
+      return new Map<string, string>();
+    }
+  });
+}
+
+async function hashStream(stream: ReadableStream<Uint8Array>): Promise<string> {
+  const hash = crypto.createHash('sha256');
+  const reader = stream.getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return hash.digest('hex');
+    hash.update(value);
+  }
+}
+
+/**
+ * Hash a download of `asset` and keep the result as its computed digest.
+ * Lets other steps that download the asset anyway, such as signature
+ * verification, spare resolveAssetDigests a second download.
+ */
+export async function digestAssetStream(
+  asset: GitHubAsset,
+  stream: ReadableStream<Uint8Array>
+): Promise<string> {
+  const digest = await hashStream(stream);
+  streamedDigests.set(asset.browser_download_url, digest);
+  setCache(`sha256-${asset.name}`, digest, DIGEST_CACHE_OPTIONS);
+  return digest;
+}
+
+function computeDigest(asset: GitHubAsset): Promise<string | null> {
+  const cacheKey = `sha256-${asset.name}`;
+  return memoize(cacheKey, async () => {
+    const streamed = streamedDigests.get(asset.browser_download_url);
+    if (streamed) return streamed;
+    const cached = getCache<string>(cacheKey, DIGEST_CACHE_OPTIONS);
+    if (cached) return cached;
+
+    try {
+      console.log(`Computing SHA-256 of ${asset.name}...`);
+      const response = await fetchStream(
+        asset.browser_download_url,
+        undefined,
+        { timeoutMs: ASSET_DOWNLOAD_TIMEOUT_MS }
+      );
+      if (!response.body) {
+        throw new Error('empty response body');
+      }
+      return await digestAssetStream(asset, response.body);
+    } catch (error) {
+      console.warn(
+        `Failed to compute SHA-256 of ${asset.name}:`,
+        describeFetchError(error)
+      );
+      return null;
+    }
+  });
+}
+
+/**
+ * Resolve the SHA-256 digest of each of `assets`, keyed by asset name.
+ * `releaseAssets` is the full asset list of the release, searched for
+ * checksums files. Warns when GitHub and a checksums file disagree.
+ * With `compute: false`, assets without a published digest are left out
+ * instead of being downloaded.
+ */
+export async function resolveAssetDigests(
+  assets: GitHubAsset[],
+  releaseAssets: GitHubAsset[],
+  { compute = true }: { compute?: boolean } = {}
+): Promise<Map<string, string>> {
+  const checksums = new Map<string, string>();
+  for (const file of releaseAssets.filter(a => isChecksumsFile(a.name))) {
+    for (const [name, digest] of await fetchChecksumsFile(file)) {
+      checksums.set(name, digest);
+    }
+  }
+
+  const digests = new Map<string, string>();
+  // One at a time, computing a digest downloads the whole artifact
+  for (const asset of assets) {
+    const fromGitHub = parseGitHubDigest(asset.digest);
+    const fromChecksums = checksums.get(asset.name) ?? null;
+
+    if (fromGitHub && fromChecksums && fromGitHub !== fromChecksums) {
+      console.warn(
+        `SHA-256 mismatch for ${asset.name}: GitHub reports ${fromGitHub}, ` +
+          `the checksums file lists ${fromChecksums}`
+      );
+    }
+
+    // GitHub hashes the file it actually serves, so it wins a disagreement
+    const digest =
+      fromGitHub ??
+      fromChecksums ??
+      (compute ? await computeDigest(asset) : null);
+    if (digest) {
+      digests.set(asset.name, digest);
+    }
+  }
+  return digests;
+}
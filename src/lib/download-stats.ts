@@ -0,0 +1,238 @@
+import type * as vl from 'vega-lite';
+import type { AssetOs } from './assets';
+import { createFallbackSvg, renderChartSvg } from './charts';
+import {
+  fetchArchivedRelease,
+  fetchReleaseArchive,
+  PLATFORM_NAMES,
+  type DownloadAsset,
+  type ReleaseInfo,
+} from './downloads';
+import { memoize } from './memo';
+
+// Download counts of the GitHub release assets, summed per version and
+// per platform and format. Install instructions (Flatpak, AUR) are links
+// to other sites and have no count, signatures are not downloads.
+
+export interface VersionDownloads {
+  version: string;
+  releaseDate: string;
+  prerelease: boolean;
+  gui: number;
+  cli: number;
+}
+
+export interface PlatformDownloads {
+  os: AssetOs;
+  format: string; // display name, e.g. "AppImage"
+  downloads: number;
+}
+
+export interface FormatDownloads {
+  format: string; // display name, e.g. "AppImage"
+  downloads: number;
+  share: number; // of all GUI downloads, 0 to 1
+}
+
+export interface DownloadStats {
+  timestamp: number | null; // when the release data was fetched
+  stale: boolean;
+  totalDownloads: number; // GUI and command-line tools, all versions
+  versions: VersionDownloads[]; // newest first
+  platforms: PlatformDownloads[]; // GUI only, most downloaded first
+  formats: FormatDownloads[]; // GUI only, most downloaded first
+}
+
+function sumDownloads(assets: DownloadAsset[]): number {
+  return assets.reduce((sum, asset) => sum + (asset.downloadCount ?? 0), 0);
+}
+
+function aggregateDownloads(releases: ReleaseInfo[]): DownloadStats {
+  const guiAssets = releases.flatMap(release =>
+    release.assets.filter(
+      asset => asset.tool === null && asset.downloadCount !== null
+    )
+  );
+
+  const platforms = new Map<string, PlatformDownloads>();
+  for (const asset of guiAssets) {
+    if (!asset.os) continue;
+    const key = `${asset.os}/${asset.name}`;
+    const entry = platforms.get(key) ?? {
+      os: asset.os,
+      format: asset.name,
+      downloads: 0,
+    };
+    entry.downloads += asset.downloadCount ?? 0;
+    platforms.set(key, entry);
+  }
+
+  const formats = new Map<string, number>();
+  for (const asset of guiAssets) {
+    formats.set(
+      asset.name,
+      (formats.get(asset.name) ?? 0) + (asset.downloadCount ?? 0)
+    );
+  }
+  const guiDownloads = sumDownloads(guiAssets);
+
+  const versions = releases.map(release => ({
+    version: release.version,
+    releaseDate: release.releaseDate,
+    prerelease: release.prerelease,
+    gui: sumDownloads(release.assets.filter(asset => asset.tool === null)),
+    cli: sumDownloads(release.assets.filter(asset => asset.tool !== null)),
+  }));
+
+  return {
+    timestamp: releases[0]?.fetchedAt ?? null,
+    stale: releases.some(release => release.stale),
+    totalDownloads: versions.reduce((sum, v) => sum + v.gui + v.cli, 0),
+    versions,
+    platforms: [...platforms.values()].sort(
+      (a, b) => b.downloads - a.downloads
+    ),
+    formats: [...formats]
+      .map(([format, downloads]) => ({
+        format,
+        downloads,
+        share: guiDownloads > 0 ? downloads / guiDownloads : 0,
+      }))
+      .sort((a, b) => b.downloads - a.downloads),
+  };
+}
+
+async function loadDownloadStats(): Promise<DownloadStats> {
+  const summaries = await fetchReleaseArchive();
+  const releases = await Promise.all(
+    summaries.map(summary => fetchArchivedRelease(summary.version))
+  );
+  return aggregateDownloads(
+    releases.filter((release): release is ReleaseInfo => release !== null)
+  );
+}
+
+/**
+ * Download counts of every published release, computed once per build.
+ * Empty if GitHub is unreachable and nothing is cached.
+ */
+export function fetchDownloadStats(): Promise<DownloadStats> {
+  return memoize('download-stats', loadDownloadStats);
+}
+
+const AXIS = {
+  labelFontSize: 14,
+  labelColor: '#666',
+  tickColor: 'transparent',
+  domainColor: 'transparent',
+  grid: false,
+};
+
+/**
+ * Stacked bars of GUI and command-line downloads per version, oldest first
+ */
+export async function generateVersionChart(
+  stats: DownloadStats
+): Promise<string> {
+  if (stats.versions.length === 0) {
+    return createFallbackSvg();
+  }
+
+  const chartData = [...stats.versions].reverse().flatMap(v => [
+    { version: v.version, channel: 'GUI', downloads: v.gui },
+    { version: v.version, channel: 'Command-line tools', downloads: v.cli },
+  ]);
+
+  const spec: vl.TopLevelSpec = {
+    $schema: 'https://vega.github.io/schema/vega-lite/v5.json',
+    width: 750,
+    height: 400,
+    background: 'transparent',
+    padding: { left: 0, right: 0, top: 0, bottom: 0 },
+    data: { values: chartData },
+    mark: { type: 'bar', cornerRadiusEnd: 2 },
+    encoding: {
+      x: {
+        title: null,
+        field: 'version',
+        type: 'ordinal',
+        sort: null, // keep release order
+        axis: { ...AXIS, labelAngle: -45 },
+      },
+      y: {
+        title: null,
+        field: 'downloads',
+        type: 'quantitative',
+        stack: 'zero',
+        axis: { ...AXIS, format: '~s' },
+      },
+      color: {
+        field: 'channel',
+        type: 'nominal',
+        scale: {
+          domain: ['GUI', 'Command-line tools'],
+          range: ['#ff6b35', '#888'],
+        },
+        legend: {
+          title: null,
+          orient: 'top',
+          labelFontSize: 14,
+          labelColor: '#666',
+        },
+      },
+    },
+  };
+
+  return renderChartSvg(spec, 'downloads per version');
+}
+
+/**
+ * Horizontal bars of GUI downloads per platform and format, most
+ * downloaded first
+ */
+export async function generatePlatformChart(
+  stats: DownloadStats
+): Promise<string> {
+  if (stats.platforms.length === 0) {
+    return createFallbackSvg();
+  }
+
+  const chartData = stats.platforms.map(p => ({
+    label: `${PLATFORM_NAMES[p.os]} ${p.format}`,
+    platform: PLATFORM_NAMES[p.os],
+    downloads: p.downloads,
+  }));
+
+  const spec: vl.TopLevelSpec = {
+    $schema: 'https://vega.github.io/schema/vega-lite/v5.json',
+    width: 750,
+    height: { step: 32 },
+    background: 'transparent',
+    padding: { left: 0, right: 0, top: 0, bottom: 0 },
+    data: { values: chartData },
+    mark: { type: 'bar', cornerRadiusEnd: 2 },
+    encoding: {
+      y: {
+        title: null,
+        field: 'label',
+        type: 'nominal',
+        sort: null, // already sorted by downloads
+        axis: AXIS,
+      },
+      x: {
+        title: null,
+        field: 'downloads',
+        type: 'quantitative',
+        axis: { ...AXIS, format: '~s' },
+      },
+      color: {
+        field: 'platform',
+        type: 'nominal',
+        scale: { range: ['#ff6b35', '#f7a41d', '#888'] },
+        legend: null,
+      },
+    },
+  };
+
+  return renderChartSvg(spec, 'downloads per platform');
+}
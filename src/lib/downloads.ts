@@ -1,9 +1,85 @@
-import { getCache, setCache } from './cache';
-import { fetchWithRetry } from './fetch';
-import 'dotenv/config';
+import {
+  CLI_TOOLS,
+  parseAssetName,
+  type AssetArch,
+  type AssetChannel,
+  type AssetFormat,
+  type AssetOs,
+} from './assets';
+import {
+  getCacheEntry,
+  getStaleCache,
+  setCache,
+  type CacheOptions,
+  type TimestampedData,
+} from './cache';
+import { resolveAssetDigests } from './digests';
+import { describeFetchError, fetchWithRetry } from './fetch';
+import { reportFallback, reportHealth, type DataSource } from './health';
+import { html, safeUrl, type SafeHtml } from './html';
+import {
+  fetchPackageVersion,
+  getFreshness,
+  PACKAGE_CHANNELS,
+  PACKAGE_SOURCES,
+  type Freshness,
+  type PackageManager,
+} from './packages';
+import type { DownloadOption } from './recommend';
+import { memoize } from './memo';
+import {
+  verifyReleaseSignatures,
+  type SignatureCheck,
+  type SignatureStatus,
+} from './signatures';
+import { GITHUB_API_BASE, GITHUB_REPO } from './config';
+import { compareVersions } from './versions';
+import * as v from './validate';
+
+const GITHUB_REPO_API = `${GITHUB_API_BASE}/repos/${GITHUB_REPO}`;
+const GITHUB_RELEASES_API = `${GITHUB_REPO_API}/releases/latest`;
+const GITHUB_RELEASES_LIST_API = `${GITHUB_REPO_API}/releases`;
+
+// Pages are requested until one comes back short. Fixtures only keep the
+// content type, so the Link header cannot be relied on.
+const RELEASES_PER_PAGE = 100;
+const MAX_RELEASE_PAGES = 10;
+
+const RELEASE_CACHE_KEY = 'github-release-latest';
+const RELEASES_CACHE_KEY = 'github-releases';
+
+// Bump `version` whenever the shape of the cached data changes
+const RELEASE_CACHE_OPTIONS: CacheOptions = {
+  ttlMs: 10 * 60 * 1000,
+  version: 2,
+};
+const RELEASES_CACHE_OPTIONS: CacheOptions = {
+  ttlMs: 60 * 60 * 1000,
+  version: 2,
+};
+const RELEASE_SOURCE: DataSource = {
+  id: RELEASE_CACHE_KEY,
+  label: 'GitHub release',
+};
+
+const RELEASES_SOURCE: DataSource = {
+  id: RELEASES_CACHE_KEY,
+  label: 'GitHub release archive',
+};
 
-const GITHUB_API_BASE = 'https://api.github.com/repos/eigenwallet/core';
-const GITHUB_RELEASES_API = `${GITHUB_API_BASE}/releases/latest`;
+/**
+ * Data sources behind the download page
+ */
+export const DOWNLOAD_SOURCES: DataSource[] = [
+  RELEASE_SOURCE,
+  RELEASES_SOURCE,
+  ...PACKAGE_SOURCES,
+];
+
+/**
+ * Data sources behind the release archive pages
+ */
+export const ARCHIVE_SOURCES: DataSource[] = [RELEASES_SOURCE];
 
 function getGitHubHeaders(): HeadersInit {
   const headers: HeadersInit = {
@@ -20,258 +96,481 @@ function getGitHubHeaders(): HeadersInit {
 
 export interface DownloadAsset {
   name: string;
+  fileName: string | null; // null for install instructions
   downloadUrl: string;
   signatureUrl: string;
+  sha256: string | null; // hex digest, null if it could not be determined
+  signatureStatus: SignatureStatus | null; // null if not checked, e.g. for install instructions
   size: string;
-  architecture: string;
-  platform: string;
-  type:
-    | 'executable'
-    | 'appimage'
-    | 'installer'
-    | 'bundle'
-    | 'archive'
-    | 'instructions';
+  sizeBytes: number | null;
+  downloadCount: number | null; // null for install instructions
+  os: AssetOs | null;
+  arch: AssetArch | null;
+  format: AssetFormat | null; // null for install instructions
+  packageManager: PackageManager | null; // set for install instructions
+  tool: string | null; // name of the command-line tool, null for the GUI
 }
 
+/**
+ * The subset of the GitHub release asset object we rely on
+ */
+export interface GitHubAsset {
+  name: string;
+  size: number;
+  browser_download_url: string;
+  download_count: number;
+  digest: string | null; // e.g. "sha256:...", missing for older releases
+  updated_at: string;
+}
+
+/**
+ * The subset of the GitHub release object we rely on
+ */
+export interface GitHubRelease {
+  tag_name: string;
+  published_at: string;
+  html_url: string;
+  draft: boolean;
+  prerelease: boolean;
+  body: string | null;
+  assets: GitHubAsset[];
+}
+
+const GITHUB_ASSET_SCHEMA: v.Schema<GitHubAsset> = {
+  name: v.string,
+  size: v.number,
+  browser_download_url: v.string,
+  download_count: v.number,
+  digest: v.nullable(v.string),
+  updated_at: v.isoDate,
+};
+
+const GITHUB_RELEASE_SCHEMA: v.Schema<GitHubRelease> = {
+  tag_name: v.string,
+  published_at: v.isoDate,
+  html_url: v.string,
+  draft: v.boolean,
+  prerelease: v.boolean,
+  body: v.nullable(v.string),
+  // Individual assets are validated separately so one bad asset is dropped
+  // instead of rejecting the whole release
+  assets: v.arrayOf(() => null),
+};
+
 export interface ReleaseInfo {
   version: string;
   releaseDate: string;
+  prerelease: boolean;
+  htmlUrl: string; // the release on GitHub
   assets: DownloadAsset[];
+  fetchedAt: number; // when the release data was fetched from GitHub
+  stale: boolean;
 }
 
-async function fetchGitHubRelease(): Promise<any> {
-  const cacheKey = 'github-release-latest';
-  let release = getCache<any>(cacheKey);
+/**
+ * Fetch the latest release from GitHub with caching.
+ * If GitHub is unavailable, the last cached release is served instead;
+ * only throws when there is no cached release at all.
+ */
+export function fetchGitHubRelease(): Promise<TimestampedData<GitHubRelease>> {
+  return memoize(RELEASE_CACHE_KEY, loadGitHubRelease);
+}
+
+async function loadGitHubRelease(): Promise<TimestampedData<GitHubRelease>> {
+  const cached = getCacheEntry<GitHubRelease>(
+    RELEASE_CACHE_KEY,
+    RELEASE_CACHE_OPTIONS
+  );
+  if (cached) {
+    return reportHealth(RELEASE_SOURCE, 'cached', cached);
+  }
 
-  if (!release) {
+  let payload: unknown;
+  try {
     console.log('Fetching fresh GitHub release data...');
     const response = await fetchWithRetry(GITHUB_RELEASES_API, {
       headers: getGitHubHeaders(),
     });
-    if (!response.ok) {
-      throw new Error(`GitHub API responded with status: ${response.status}`);
+    payload = await response.json();
+  } catch (error) {
+    const stale = reportFallback(
+      RELEASE_SOURCE,
+      getStaleCache<GitHubRelease>(RELEASE_CACHE_KEY, RELEASE_CACHE_OPTIONS),
+      error
+    );
+    if (!stale) {
+      throw error;
     }
-    release = await response.json();
-    setCache(cacheKey, release);
+    console.warn(
+      'Failed to fetch GitHub release, using cached data:',
+      describeFetchError(error)
+    );
+    return stale;
   }
 
-  return release;
+  return reportHealth(
+    RELEASE_SOURCE,
+    'fresh',
+    setCache(RELEASE_CACHE_KEY, validateRelease(payload), RELEASE_CACHE_OPTIONS)
+  );
+}
+
+/**
+ * Fetch every published release from GitHub with caching, newest first.
+ * Falls back to stale cached data on network error, returns null if there is none
+ */
+function fetchGitHubReleases(): Promise<TimestampedData<
+  GitHubRelease[]
+> | null> {
+  return memoize(RELEASES_CACHE_KEY, loadGitHubReleases);
+}
+
+async function loadGitHubReleases(): Promise<TimestampedData<
+  GitHubRelease[]
+> | null> {
+  const cached = getCacheEntry<GitHubRelease[]>(
+    RELEASES_CACHE_KEY,
+    RELEASES_CACHE_OPTIONS
+  );
+  if (cached) {
+    return reportHealth(RELEASES_SOURCE, 'cached', cached);
+  }
+
+  const pages: unknown[] = [];
+  try {
+    console.log('Fetching GitHub release list...');
+    for (let page = 1; page <= MAX_RELEASE_PAGES; page++) {
+      const response = await fetchWithRetry(
+        `${GITHUB_RELEASES_LIST_API}?per_page=${RELEASES_PER_PAGE}&page=${page}`,
+        { headers: getGitHubHeaders() }
+      );
+      const payload = await response.json();
+      pages.push(payload);
+      if (!Array.isArray(payload) || payload.length < RELEASES_PER_PAGE) {
+        break;
+      }
+    }
+  } catch (error) {
+    console.warn(
+      'Failed to fetch GitHub release list:',
+      describeFetchError(error)
+    );
+    return reportFallback(
+      RELEASES_SOURCE,
+      getStaleCache(RELEASES_CACHE_KEY, RELEASES_CACHE_OPTIONS),
+      error
+    );
+  }
+
+  const releases = pages
+    .flatMap(page =>
+      v.validateRecords(page, GITHUB_RELEASE_SCHEMA, 'GitHub releases')
+    )
+    .filter(release => !release.draft)
+    .map(validateReleaseAssets);
+  return reportHealth(
+    RELEASES_SOURCE,
+    'fresh',
+    setCache(RELEASES_CACHE_KEY, releases, RELEASES_CACHE_OPTIONS)
+  );
 }
 
-function filterWalletAssets(assets: any[]): any[] {
+function validateRelease(payload: unknown): GitHubRelease {
+  return validateReleaseAssets(
+    v.validatePayload(payload, GITHUB_RELEASE_SCHEMA, 'GitHub release')
+  );
+}
+
+function validateReleaseAssets(release: GitHubRelease): GitHubRelease {
+  return {
+    ...release,
+    assets: v.validateRecords(
+      release.assets,
+      GITHUB_ASSET_SCHEMA,
+      `GitHub release ${release.tag_name} asset`
+    ),
+  };
+}
+
+function isSignature(assetName: string): boolean {
+  return assetName.endsWith('.sig') || assetName.endsWith('.asc');
+}
+
+function filterAssetsByChannel(
+  assets: GitHubAsset[],
+  channel: AssetChannel
+): GitHubAsset[] {
   return assets.filter(
-    (asset: any) =>
-      asset.name.startsWith('eigenwallet_') &&
-      !asset.name.endsWith('.sig') &&
-      !asset.name.endsWith('.asc')
+    asset =>
+      parseAssetName(asset.name).asset.channel === channel &&
+      !isSignature(asset.name)
   );
 }
 
-function createAssetUrlMap(assets: any[]): Map<string, string> {
-  return new Map(assets.map((a: any) => [a.name, a.browser_download_url]));
+function filterWalletAssets(assets: GitHubAsset[]): GitHubAsset[] {
+  return filterAssetsByChannel(assets, 'gui');
 }
 
-function transformAsset(asset: any, signatureUrl: string): DownloadAsset {
-  const { platform, architecture, type } = parseAssetName(asset.name);
+function filterCliAssets(assets: GitHubAsset[]): GitHubAsset[] {
+  return filterAssetsByChannel(assets, 'cli');
+}
+
+function createAssetUrlMap(assets: GitHubAsset[]): Map<string, string> {
+  return new Map(assets.map(a => [a.name, a.browser_download_url]));
+}
+
+// What we know about an asset beyond the GitHub asset object itself
+type AssetDetails = Pick<
+  DownloadAsset,
+  'signatureUrl' | 'sha256' | 'signatureStatus'
+>;
+
+// Pages share release data, so each name is only reported once per build
+const reportedAssetNames = new Set<string>();
+
+function transformAsset(
+  asset: GitHubAsset,
+  details: AssetDetails
+): DownloadAsset {
+  const { asset: parsed, warnings } = parseAssetName(asset.name);
+  if (warnings.length > 0 && !reportedAssetNames.has(asset.name)) {
+    reportedAssetNames.add(asset.name);
+    console.warn(`Release asset ${asset.name}: ${warnings.join('; ')}`);
+  }
 
   return {
-    name: getDisplayName(asset.name),
+    name: getDisplayName(parsed.format),
+    fileName: asset.name,
     downloadUrl: asset.browser_download_url,
-    signatureUrl,
     size: formatFileSize(asset.size),
-    architecture,
-    platform,
-    type,
+    sizeBytes: asset.size,
+    downloadCount: asset.download_count,
+    os: parsed.os,
+    arch: parsed.arch,
+    format: parsed.format,
+    packageManager: null,
+    tool: parsed.tool,
+    ...details,
   };
 }
 
+// Package manager channels offered next to the release files
 function createSpecialInstallMethods(): DownloadAsset[] {
-  return [
-    {
-      name: 'Flatpak',
-      downloadUrl: '/flatpak',
-      signatureUrl: '',
-      size: '',
-      architecture: "x86_64 <span style='float: right;'>Flatpak</span>",
-      platform: 'Linux',
-      type: 'instructions',
-    },
-    {
-      name: 'AUR',
-      downloadUrl: 'https://aur.archlinux.org/packages/eigenwallet-bin',
+  return PACKAGE_CHANNELS.flatMap(channel => {
+    const { installUrl } = channel;
+    if (installUrl === null) {
+      return [];
+    }
+    return channel.architectures.map(arch => ({
+      name: channel.manager,
+      fileName: null,
+      downloadUrl: installUrl,
       signatureUrl: '',
+      sha256: null,
+      signatureStatus: null,
       size: '',
-      architecture: "x86_64 <span style='float: right;'>AUR</span>",
-      platform: 'Linux',
-      type: 'instructions',
-    },
-  ];
+      sizeBytes: null,
+      downloadCount: null,
+      os: channel.os,
+      arch,
+      format: null,
+      packageManager: channel.manager,
+      tool: null,
+    }));
+  });
 }
 
+/**
+ * - stable: the latest release
+ * - preview: the newest pre-release, if it is newer than the latest release
+ */
+export type ReleaseChannel = 'stable' | 'preview';
+
 export async function fetchLatestRelease(): Promise<ReleaseInfo> {
-  const release = await fetchGitHubRelease();
+  const { data: release, timestamp, stale } = await fetchGitHubRelease();
+  const releaseInfo = await buildReleaseInfo(release, timestamp, stale);
+  // Flatpak and AUR always install the latest version
+  releaseInfo.assets.push(...createSpecialInstallMethods());
+  return releaseInfo;
+}
 
-  const walletAssets = filterWalletAssets(release.assets);
-  const assetNameToUrl = createAssetUrlMap(release.assets);
+/**
+ * The newest pre-release, or null if no pre-release is newer than the
+ * latest stable release
+ */
+export async function fetchPreviewRelease(): Promise<ReleaseInfo | null> {
+  const preview = await findPreviewRelease();
+  if (!preview) {
+    return null;
+  }
+  const { data: release, timestamp, stale } = preview;
+  return buildReleaseInfo(release, timestamp, stale);
+}
 
-  const assets: DownloadAsset[] = walletAssets.map((asset: any) => {
-    const signatureUrl = assetNameToUrl.get(`${asset.name}.asc`) || '';
-    return transformAsset(asset, signatureUrl);
-  });
+async function findPreviewRelease(): Promise<TimestampedData<GitHubRelease> | null> {
+  const [{ data: stable }, releases] = await Promise.all([
+    fetchGitHubRelease(),
+    fetchGitHubReleases(),
+  ]);
+  if (!releases) {
+    return null;
+  }
 
-  assets.push(...createSpecialInstallMethods());
+  const preview = releases.data
+    .filter(release => release.prerelease)
+    .filter(
+      release => compareVersions(getVersion(release), getVersion(stable)) > 0
+    )
+    .sort((a, b) => compareVersions(getVersion(b), getVersion(a)))[0];
+  return preview ? { ...releases, data: preview } : null;
+}
 
-  const version = release.tag_name.replace(/^v/, '');
-  const releaseDate = new Date(release.published_at)
-    .toISOString()
-    .split('T')[0];
+export interface ReleaseSummary {
+  version: string;
+  releaseDate: string;
+  publishedAt: string; // ISO 8601 timestamp
+  prerelease: boolean;
+}
 
-  return {
-    version,
-    releaseDate,
-    assets,
-  };
+/**
+ * Every published release, newest first. Empty if GitHub is unreachable
+ * and nothing is cached.
+ */
+export async function fetchReleaseArchive(): Promise<ReleaseSummary[]> {
+  const releases = await fetchGitHubReleases();
+  return (releases?.data ?? []).map(release => ({
+    version: getVersion(release),
+    releaseDate: getReleaseDate(release),
+    publishedAt: release.published_at,
+    prerelease: release.prerelease,
+  }));
 }
 
-export interface QuickDownloadUrls {
-  windows: string;
-  macosSilicon: string;
-  macosIntel: string;
-  linux: string;
+/**
+ * Download details of a past release, or null if there is no such release.
+ * Unlike the latest release, archived assets are not downloaded at build
+ * time: signatures are not verified and digests are only shown when
+ * GitHub or a checksums file provides them.
+ */
+export async function fetchArchivedRelease(
+  version: string
+): Promise<ReleaseInfo | null> {
+  const releases = await fetchGitHubReleases();
+  const release = releases?.data.find(r => getVersion(r) === version);
+  if (!releases || !release) {
+    return null;
+  }
+  return buildReleaseInfo(release, releases.timestamp, releases.stale, {
+    archived: true,
+  });
 }
 
-export async function getQuickDownloadUrls(): Promise<QuickDownloadUrls> {
-  const release = await fetchGitHubRelease();
-  const assets = (release.assets || []).filter(
-    (a: any) =>
-      a.name.startsWith('eigenwallet_') &&
-      !a.name.endsWith('.sig') &&
-      !a.name.endsWith('.asc')
-  );
+export function getVersion(release: GitHubRelease): string {
+  return release.tag_name.replace(/^v/, '');
+}
 
-  const findAsset = (predicate: (name: string) => boolean): string => {
-    const asset = assets.find((a: any) => predicate(a.name.toLowerCase()));
-    return asset?.browser_download_url || '/download';
-  };
+function getReleaseDate(release: GitHubRelease): string {
+  return new Date(release.published_at).toISOString().split('T')[0];
+}
 
-  const isArm = (name: string) =>
-    name.includes('aarch64') || name.includes('arm64');
-  const isX86 = (name: string) =>
-    name.includes('x86_64') || name.includes('x64') || name.includes('amd64');
+async function buildReleaseInfo(
+  release: GitHubRelease,
+  fetchedAt: number,
+  stale: boolean,
+  { archived = false }: { archived?: boolean } = {}
+): Promise<ReleaseInfo> {
+  const walletAssets = filterWalletAssets(release.assets);
+  const cliAssets = filterCliAssets(release.assets);
+  const assetNameToUrl = createAssetUrlMap(release.assets);
+  // Signatures first: verifying hashes each artifact, which spares
+  // resolveAssetDigests from downloading it again
+  const signatures = archived
+    ? new Map<string, SignatureCheck>()
+    : await memoize(`signatures-${release.tag_name}`, () =>
+        verifyReleaseSignatures([...walletAssets, ...cliAssets], release.assets)
+      );
+  // Archived releases resolve fewer digests, keep the results apart
+  const digestsKey = `digests-${archived ? 'archived-' : ''}${release.tag_name}`;
+  const digests = await memoize(digestsKey, () =>
+    resolveAssetDigests([...walletAssets, ...cliAssets], release.assets, {
+      compute: !archived,
+    })
+  );
+
+  const assets: DownloadAsset[] = [...walletAssets, ...cliAssets].map(asset =>
+    transformAsset(asset, {
+      signatureUrl: assetNameToUrl.get(`${asset.name}.asc`) || '',
+      sha256: digests.get(asset.name) ?? null,
+      signatureStatus: signatures.get(asset.name)?.status ?? null,
+    })
+  );
 
   return {
-    windows: findAsset(name => name.endsWith('.exe')),
-    macosSilicon: findAsset(name => name.endsWith('.dmg') && isArm(name)),
-    macosIntel: findAsset(name => name.endsWith('.dmg') && isX86(name)),
-    linux: '/flatpak',
+    version: getVersion(release),
+    releaseDate: getReleaseDate(release),
+    prerelease: release.prerelease,
+    htmlUrl: release.html_url,
+    assets,
+    fetchedAt,
+    stale,
   };
 }
 
-function detectPlatform(name: string): string {
-  // Check for Linux-specific formats first (before .app check to avoid .appimage false positive)
-  if (
-    name.includes('linux') ||
-    name.includes('.appimage') ||
-    name.includes('.deb') ||
-    name.includes('.rpm')
-  )
-    return 'Linux';
-
-  // Check for macOS (use .app.tar.gz or .dmg to avoid .appimage false positive)
-  if (
-    name.includes('darwin') ||
-    name.includes('macos') ||
-    name.includes('.dmg') ||
-    name.includes('.app.tar.gz')
-  )
-    return 'macOS';
-
-  // Check for Windows
-  if (
-    name.includes('windows') ||
-    name.includes('win') ||
-    name.includes('.exe') ||
-    name.includes('.msi')
-  )
-    return 'Windows';
-
-  return 'Unknown';
-}
-
-function detectAssetType(name: string): DownloadAsset['type'] {
-  if (name.includes('.exe')) return 'executable';
-  if (name.includes('.msi') || name.includes('.deb') || name.includes('.rpm'))
-    return 'installer';
-  if (name.includes('.dmg') || name.includes('.app.tar.gz')) return 'bundle';
-  if (name.includes('.appimage')) return 'appimage';
-  return 'archive';
-}
-
-function formatArchitecture(name: string, platform: string): string {
-  const isAppImage = name.includes('.appimage');
-  const isDebian = name.includes('.deb');
-  // Match x86_64, amd64, or x64 patterns
-  const isX86 =
-    name.includes('x86_64') || name.includes('amd64') || name.includes('x64');
-  const isArm = name.includes('aarch64') || name.includes('arm64');
-
-  if (isX86) {
-    if (platform === 'macOS') {
-      const macReleaseType = name.includes('.dmg')
-        ? 'DMG'
-        : name.includes('.app.tar.gz')
-          ? 'Bundle'
-          : 'Binary';
-      return `Intel <span style='float: right;'>${macReleaseType}</span>`;
-    }
-    if (isAppImage) return "x86_64 <span style='float: right;'>AppImage</span>";
-    if (isDebian) return "x86_64 <span style='float: right;'>Debian</span>";
-    return 'x86_64';
-  }
-
-  if (isArm) {
-    if (platform === 'macOS') {
-      const macReleaseType = name.includes('.dmg')
-        ? 'DMG'
-        : name.includes('.app.tar.gz')
-          ? 'Bundle'
-          : 'Binary';
-      return `Silicon <span style='float: right;'>${macReleaseType}</span>`;
-    }
-    return 'ARM64';
-  }
-
-  return '';
+/**
+ * Every way to install the GUI from `releaseInfo`, for the recommendation
+ * engine. Files of unknown OS, architecture or format are left out.
+ */
+export function getDownloadOptions(releaseInfo: ReleaseInfo): DownloadOption[] {
+  return releaseInfo.assets.flatMap(asset =>
+    asset.tool === null &&
+    asset.os &&
+    asset.arch &&
+    (asset.format || asset.packageManager)
+      ? [
+          {
+            id: getDownloadOptionId(asset),
+            label: asset.name,
+            url: asset.downloadUrl,
+            os: asset.os,
+            arch: asset.arch,
+            format: asset.format,
+            packageManager: asset.packageManager,
+          },
+        ]
+      : []
+  );
 }
 
-function parseAssetName(assetName: string): {
-  platform: string;
-  architecture: string;
-  type: DownloadAsset['type'];
-} {
-  const name = assetName.toLowerCase();
-  const platform = detectPlatform(name);
-  const architecture = formatArchitecture(name, platform);
-  const type = detectAssetType(name);
-
-  return { platform, architecture, type };
+/**
+ * Download options of the given channel for the home page. The preview
+ * channel falls back to the stable release when there is no newer
+ * pre-release.
+ */
+export async function fetchDownloadOptions(
+  channel: ReleaseChannel = 'stable'
+): Promise<DownloadOption[]> {
+  const preview = channel === 'preview' ? await fetchPreviewRelease() : null;
+  return getDownloadOptions(preview ?? (await fetchLatestRelease()));
 }
 
-function getDisplayName(assetName: string): string {
-  const name = assetName.toLowerCase();
+function getDownloadOptionId(asset: DownloadAsset): string {
+  return asset.fileName ?? `${asset.packageManager}-${asset.arch}`;
+}
 
-  if (name.includes('.dmg')) return 'DMG Installer';
-  if (name.includes('.appimage')) return 'AppImage';
-  if (name.includes('.deb')) return 'DEB Package';
-  if (name.includes('.rpm')) return 'RPM Package';
-  if (name.includes('.msi')) return 'MSI Installer';
-  if (name.includes('.exe')) return 'Executable';
-  if (name.includes('.app.tar.gz')) return 'macOS App Bundle';
-  if (name.includes('.tar')) return 'TAR Archive';
-  if (name.includes('.zip')) return 'ZIP Archive';
+const FORMAT_NAMES: Record<AssetFormat, string> = {
+  dmg: 'DMG Installer',
+  'app-bundle': 'macOS App Bundle',
+  appimage: 'AppImage',
+  deb: 'DEB Package',
+  rpm: 'RPM Package',
+  msi: 'MSI Installer',
+  exe: 'Executable',
+  tar: 'TAR Archive',
+  zip: 'ZIP Archive',
+};
 
-  return 'Archive';
+function getDisplayName(format: AssetFormat | null): string {
+  return format ? FORMAT_NAMES[format] : 'Archive';
 }
 
 function formatFileSize(bytes: number): string {
@@ -287,222 +586,368 @@ function formatFileSize(bytes: number): string {
   return `${Math.round(size)} ${units[unitIndex]}`;
 }
 
-const PLATFORM_ORDER = ['Linux', 'Windows', 'macOS'];
+const PLATFORM_ORDER: AssetOs[] = ['linux', 'windows', 'macos'];
+
+export const PLATFORM_NAMES: Record<AssetOs, string> = {
+  linux: 'Linux',
+  windows: 'Windows',
+  macos: 'macOS',
+};
 
-const PLATFORM_ICONS: Record<string, string> = {
-  Linux:
-    '<img src="/icons/os-linux.svg" width="20" height="20" alt="Linux" style="display:inline-block;vertical-align:middle;"/>',
-  Windows:
-    '<img src="/icons/os-windows.svg" width="20" height="20" alt="Windows" style="display:inline-block;vertical-align:middle;"/>',
-  macOS:
-    '<img src="/icons/os-macos.svg" width="20" height="20" alt="macOS" style="display:inline-block;vertical-align:middle;"/>',
+const PLATFORM_ICONS: Record<AssetOs, SafeHtml> = {
+  linux: html`<img
+    src="/icons/os-linux.svg"
+    width="20"
+    height="20"
+    alt="Linux"
+    style="display:inline-block;vertical-align:middle;"
+  />`,
+  windows: html`<img
+    src="/icons/os-windows.svg"
+    width="20"
+    height="20"
+    alt="Windows"
+    style="display:inline-block;vertical-align:middle;"
+  />`,
+  macos: html`<img
+    src="/icons/os-macos.svg"
+    width="20"
+    height="20"
+    alt="macOS"
+    style="display:inline-block;vertical-align:middle;"
+  />`,
 };
 
+// The table generators return plain strings for the markdown templates,
+// everything they interpolate goes through `html` and is escaped
+
 export function generateGuiTable(releaseInfo: ReleaseInfo): string {
-  const guiAssets = releaseInfo.assets.filter(
-    asset =>
-      asset.downloadUrl.includes('eigenwallet_') ||
-      asset.type === 'instructions'
-  );
+  return renderGuiTable(releaseInfo).toString();
+}
+
+function renderGuiTable(releaseInfo: ReleaseInfo): SafeHtml {
+  const guiAssets = releaseInfo.assets.filter(asset => asset.tool === null);
 
   return generateTable(guiAssets);
 }
 
+/**
+ * The "Preview builds" section, empty when no pre-release is newer than
+ * the latest release
+ */
+export function generatePreviewSection(preview: ReleaseInfo | null): string {
+  if (!preview) {
+    return '';
+  }
+
+  return html`<section class="preview-builds">
+    <h2 id="preview">Preview builds (v${preview.version})</h2>
+    <p class="notice">
+      Release candidates for testing the next version. They may contain bugs,
+      use the stable release above unless you want to help testing.
+    </p>
+    ${renderGuiTable(preview)}
+    <p>
+      <em>The pre-release was published on ${preview.releaseDate}.</em>
+      <a href="${safeUrl(`/download/${encodeURIComponent(preview.version)}`)}"
+        ><em>Command-line tools for this pre-release</em></a
+      >
+    </p>
+  </section>`.toString();
+}
+
+/**
+ * One table per command-line tool, each preceded by a heading
+ */
 export function generateCliTable(releaseInfo: ReleaseInfo): string {
-  const cliAssets = releaseInfo.assets.filter(
-    asset =>
-      asset.downloadUrl.includes('asb_') ||
-      asset.downloadUrl.includes('swap_') ||
-      asset.downloadUrl.includes('orchestrator_') ||
-      asset.downloadUrl.includes('rendezvous-server_')
-  );
+  const sections = CLI_TOOLS.flatMap(tool => {
+    const toolAssets = releaseInfo.assets.filter(
+      asset => asset.tool === tool.name
+    );
+    if (toolAssets.length === 0) {
+      return [];
+    }
 
-  return generateTable(cliAssets);
+    return [
+      html`<h3 id="${tool.name}"><code>${tool.name}</code></h3>
+        <p>${tool.description}</p>
+        ${generateTable(toolAssets)}`,
+    ];
+  });
+
+  if (sections.length === 0) {
+    return '<p><em>No command-line tools available.</em></p>';
+  }
+  return sections.join('\n\n');
 }
 
-export async function generateAurTable(): Promise<string> {
-  const aurPackages = [
-    {
-      name: 'eigenwallet-bin',
-      packageUrl: 'https://aur.archlinux.org/packages/eigenwallet-bin',
-      maintainer: 'Kainoa Kanter (That1Calculator)',
-      maintainerUrl: 'https://aur.archlinux.org/account/That1Calculator',
-      architectures: ['x86_64'],
-    },
-    {
-      name: 'eigenwallet-developertools-bin',
-      packageUrl:
-        'https://aur.archlinux.org/packages/eigenwallet-developertools-bin',
-      maintainer: 'Kainoa Kanter (That1Calculator)',
-      maintainerUrl: 'https://aur.archlinux.org/account/That1Calculator',
-      architectures: ['x86_64'],
-    },
+/**
+ * Every package manager channel with the version it ships and how far
+ * that lags behind the latest release
+ */
+export async function generatePackageTable(): Promise<string> {
+  const [latest, archive, versions] = await Promise.all([
+    fetchLatestRelease(),
+    fetchReleaseArchive(),
+    Promise.all(PACKAGE_CHANNELS.map(fetchPackageVersion)),
+  ]);
+  // The archive may already list a release that is not "latest" yet
+  const stableVersions = [
+    latest.version,
+    ...archive
+      .filter(release => !release.prerelease)
+      .map(release => release.version)
+      .filter(version => compareVersions(version, latest.version) <= 0),
   ];
 
-  const packagesWithVersions = await Promise.all(
-    aurPackages.map(async pkg => {
-      const version = await fetchAurPackageVersion(pkg.name);
-      return { ...pkg, version };
-    })
-  );
+  const tableRows = PACKAGE_CHANNELS.map((channel, i) => {
+    const version = versions[i];
+    const maintainer = channel.maintainer
+      ? html`<a href="${safeUrl(channel.maintainer.url)}"
+          >${channel.maintainer.name}</a
+        >`
+      : 'eigenwallet';
+
+    return html` <tr data-package="${channel.id}">
+      <td class="hide-mobile">${channel.architectures.join(', ')}</td>
+      <td>
+        ${channel.manager}
+        <a href="${safeUrl(channel.packageUrl)}"
+          ><code>${channel.name}</code></a
+        >
+      </td>
+      <td>${version ?? 'N/A'}</td>
+      <td>${createFreshnessBadge(getFreshness(version, stableVersions))}</td>
+      <td class="hide-mobile">${maintainer}</td>
+    </tr>`;
+  });
 
-  const tableRows = packagesWithVersions
-    .map(pkg => {
-      return `  <tr>
-    <td class="hide-mobile">${pkg.architectures.join(', ')}</td>
-    <td><a href="${pkg.packageUrl}"><code>${pkg.name}</code></a></td>
-    <td>${pkg.version}</td>
-    <td><a href="${pkg.maintainerUrl}">${pkg.maintainer}</a></td>
-  </tr>`;
-    })
-    .join('\n');
-
-  return `<table>
-  <thead>
-    <tr>
-      <th class="hide-mobile">Architecture</th>
-      <th>Package</th>
-      <th>Version</th>
-      <th>Maintainer</th>
-    </tr>
-  </thead>
-  <tbody>
-${tableRows}
-  <tr>
-    <td colspan="4" class="notice">
-    The Arch packages are unofficial and communitity maintained. Use at your own risk.
-    </td>
-  </tr>
-  </tbody>
-</table>`;
-}
-
-async function fetchAurPackageVersion(packageName: string): Promise<string> {
-  const cacheKey = `aur-${packageName}`;
-  const cached = getCache<string>(cacheKey);
-  if (cached) return cached;
+  return html`<table>
+    <thead>
+      <tr>
+        <th class="hide-mobile">Architecture</th>
+        <th>Package</th>
+        <th>Version</th>
+        <th>Status</th>
+        <th class="hide-mobile">Maintainer</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${tableRows}
+      <tr>
+        <td colspan="5" class="notice">
+          Community maintained packages are unofficial. Use at your own risk.
+        </td>
+      </tr>
+    </tbody>
+  </table>`.toString();
+}
 
-  try {
-    const response = await fetchWithRetry(
-      `https://aur.archlinux.org/rpc/v5/info?arg[]=${packageName}`
-    );
-    if (!response.ok) return 'N/A';
-
-    const data = await response.json();
-    const version = data.results?.[0]?.Version ?? 'N/A';
-    if (version !== 'N/A') setCache(cacheKey, version);
-    return version;
-  } catch {
-    return 'N/A';
+function createFreshnessBadge(freshness: Freshness): SafeHtml {
+  switch (freshness.status) {
+    case 'up-to-date':
+      return html`<span class="freshness" data-freshness="up-to-date"
+        >up to date</span
+      >`;
+    case 'behind': {
+      const { releasesBehind } = freshness;
+      return html`<span class="freshness" data-freshness="behind"
+        >${releasesBehind} ${releasesBehind === 1 ? 'version' : 'versions'}
+        behind</span
+      >`;
+    }
+    case 'unknown':
+      return html`<span class="freshness" data-freshness="unknown"
+        >unknown</span
+      >`;
   }
 }
 
+// Assets of unknown OS are left out, parseAssetName has warned about them
 function groupAssetsByPlatform(
   assets: DownloadAsset[]
-): Record<string, DownloadAsset[]> {
+): Partial<Record<AssetOs, DownloadAsset[]>> {
   return assets.reduce(
     (groups, asset) => {
-      if (!groups[asset.platform]) {
-        groups[asset.platform] = [];
+      if (asset.os) {
+        (groups[asset.os] ??= []).push(asset);
       }
-      groups[asset.platform].push(asset);
       return groups;
     },
-    {} as Record<string, DownloadAsset[]>
+    {} as Partial<Record<AssetOs, DownloadAsset[]>>
   );
 }
 
-const DOWNLOAD_ICON = `<img src="/icons/download.svg" width="20" height="20" alt="Download" style="display:inline-block;vertical-align:middle;margin-left:0.5em;"/>`;
-
-function createFileLink(asset: DownloadAsset): string {
-  if (asset.type === 'instructions') {
-    return `<a href="${asset.downloadUrl}">Instructions</a>`;
+const DOWNLOAD_ICON = html`<img
+  src="/icons/download.svg"
+  width="20"
+  height="20"
+  alt="Download"
+  style="display:inline-block;vertical-align:middle;margin-left:0.5em;"
+/>`;
+
+function createFileLink(asset: DownloadAsset): SafeHtml {
+  const url = safeUrl(asset.downloadUrl);
+  if (asset.fileName === null) {
+    return html`<a href="${url}">Instructions</a>`;
   }
 
-  const fileName = asset.downloadUrl.split('/').pop()!;
-  return `<a href="${asset.downloadUrl}" style="text-decoration: none; display: inline-flex; align-items: center;"><code style="font-size: 0.85em; word-break: break-all;">${fileName}</code>${DOWNLOAD_ICON}</a>`;
+  return html`<a
+    href="${url}"
+    style="text-decoration: none; display: inline-flex; align-items: center;"
+    ><code style="font-size: 0.85em; word-break: break-all;"
+      >${asset.fileName}</code
+    >${DOWNLOAD_ICON}</a
+  >`;
 }
 
-const DOWNLOAD_ICON_SMALL = `<img src="/icons/download.svg" width="16" height="16" alt="Download" style="display:inline-block;vertical-align:middle;margin-left:0.3em;"/>`;
+const DOWNLOAD_ICON_SMALL = html`<img
+  src="/icons/download.svg"
+  width="16"
+  height="16"
+  alt="Download"
+  style="display:inline-block;vertical-align:middle;margin-left:0.3em;"
+/>`;
+
+function createSignatureStatus(status: SignatureStatus | null): SafeHtml {
+  switch (status) {
+    case 'verified':
+      return html`<span
+        title="Verified against the eigenwallet signing key at build time"
+        style="display: block; font-size: 0.8em; color: #22c55e;"
+        >&#10003; verified</span
+      >`;
+    case 'unverified':
+      return html`<span
+        title="The signature could not be verified at build time"
+        style="display: block; font-size: 0.8em; font-weight: 600; color: #e74c3c;"
+        >&#9888; not verified</span
+      >`;
+    case 'missing-signature':
+      return html`<span
+        title="This release does not include a signature for this file"
+        style="display: block; font-size: 0.8em; font-weight: 600; color: #e74c3c;"
+        >&#9888; no signature</span
+      >`;
+    default:
+      return html``;
+  }
+}
+
+function createSignatureLink(asset: DownloadAsset): SafeHtml {
+  const status = createSignatureStatus(asset.signatureStatus);
+  if (!asset.signatureUrl) return status;
+  return html`<a
+      href="${safeUrl(asset.signatureUrl)}"
+      style="display: inline-flex; align-items: center;"
+      >signature${DOWNLOAD_ICON_SMALL}</a
+    >${status}`;
+}
 
-function createSignatureLink(signatureUrl: string): string {
-  if (!signatureUrl) return '';
-  return `<a href="${signatureUrl}" style="display: inline-flex; align-items: center;">signature${DOWNLOAD_ICON_SMALL}</a>`;
+// The copy button is wired up by the script on the download page
+function createDigest(sha256: string | null): SafeHtml | null {
+  if (!sha256) return null;
+  return html`<div
+    style="display: flex; align-items: center; gap: 0.5em; margin-top: 0.3em;"
+  >
+    <code
+      title="SHA-256"
+      style="font-size: 0.7em; word-break: break-all; opacity: 0.7;"
+      >sha256:${sha256}</code
+    ><button type="button" class="copy-digest" data-digest="${sha256}">
+      Copy
+    </button>
+  </div>`;
 }
 
-function getArchType(asset: DownloadAsset): 'x86_64' | 'arm64' | '' {
-  const arch = asset.architecture.toLowerCase();
-  if (arch.includes('intel') || arch.includes('x86_64')) return 'x86_64';
-  if (
-    arch.includes('silicon') ||
-    arch.includes('arm64') ||
-    arch.includes('aarch64')
-  )
-    return 'arm64';
+const ARCH_NAMES: Record<AssetArch, string> = {
+  x86_64: 'x86_64',
+  arm64: 'ARM64',
+  armv7: 'ARMv7',
+};
+
+const MACOS_ARCH_NAMES: Record<AssetArch, string> = {
+  ...ARCH_NAMES,
+  x86_64: 'Intel',
+  arm64: 'Silicon',
+};
+
+// Shown next to the architecture to tell apart files for the same machine
+function getVariantLabel(asset: DownloadAsset): string {
+  if (asset.fileName === null) return asset.name; // Flatpak, AUR
+  if (asset.os === 'macos') {
+    if (asset.format === 'dmg') return 'DMG';
+    if (asset.format === 'app-bundle') return 'Bundle';
+    return 'Binary';
+  }
+  if (asset.format === 'appimage') return 'AppImage';
+  if (asset.format === 'deb') return 'Debian';
   return '';
 }
 
-function generateAssetRow(asset: DownloadAsset): string {
-  const fileLink = createFileLink(asset);
-  const signatureLink = createSignatureLink(asset.signatureUrl);
-  const archType = getArchType(asset);
-  const assetType = asset.name.toLowerCase().replace(/\s+/g, '-');
+function createArchitectureCell(asset: DownloadAsset): SafeHtml | null {
+  if (!asset.arch) return null;
+  const names = asset.os === 'macos' ? MACOS_ARCH_NAMES : ARCH_NAMES;
+  const variant = getVariantLabel(asset);
+  return variant
+    ? html`${names[asset.arch]} <span style="float: right;">${variant}</span>`
+    : html`${names[asset.arch]}`;
+}
 
-  return `
-    <tr data-platform="${asset.platform.toLowerCase()}" data-arch="${archType}" data-type="${assetType}">
-      <td>${asset.architecture}</td>
-      <td>${fileLink}</td>
-      <td>${signatureLink}</td>
-      <td>${asset.size}</td>
-    </tr>`;
+function generateAssetRow(asset: DownloadAsset): SafeHtml {
+  return html` <tr
+    data-platform="${asset.os}"
+    data-arch="${asset.arch ?? ''}"
+    data-download-id="${getDownloadOptionId(asset)}"
+    data-tool="${asset.tool ?? ''}"
+    data-signature="${asset.signatureStatus ?? ''}"
+  >
+    <td>${createArchitectureCell(asset)}</td>
+    <td>${createFileLink(asset)}${createDigest(asset.sha256)}</td>
+    <td>${createSignatureLink(asset)}</td>
+    <td>${asset.size}</td>
+  </tr>`;
 }
 
 function generatePlatformSection(
-  platform: string,
+  platform: AssetOs,
   assets: DownloadAsset[]
-): string {
-  const icon = PLATFORM_ICONS[platform] ?? '';
-  const assetRows = assets.map(generateAssetRow).join('');
-
-  return `
-    <tr>
-      <td colspan="4" style="background: #e8e8e8; color: #222; font-weight: bold; padding: 0.5em 1em;">
-        ${icon} ${platform}
+): SafeHtml {
+  return html` <tr>
+      <td
+        colspan="4"
+        style="background: #e8e8e8; color: #222; font-weight: bold; padding: 0.5em 1em;"
+      >
+        ${PLATFORM_ICONS[platform]} ${PLATFORM_NAMES[platform]}
       </td>
-    </tr>${assetRows}`;
-}
-
-function generateTableHeader(): string {
-  return `
-<table>
-  <thead>
-    <tr>
-      <th scope="col">Architecture</th>
-      <th scope="col">File</th>
-      <th scope="col">Signature</th>
-      <th scope="col">Size</th>
     </tr>
-  </thead>
-  <tbody>`;
+    ${assets.map(generateAssetRow)}`;
 }
 
-function generateTable(assets: DownloadAsset[]): string {
+function generateTable(assets: DownloadAsset[]): SafeHtml {
   if (assets.length === 0) {
-    return '<p><em>No downloads available.</em></p>';
+    return html`<p><em>No downloads available.</em></p>`;
   }
 
   const platformGroups = groupAssetsByPlatform(assets);
-  let tableHtml = generateTableHeader();
-
-  for (const platform of PLATFORM_ORDER) {
-    if (platformGroups[platform]) {
-      tableHtml += generatePlatformSection(platform, platformGroups[platform]);
-    }
-  }
-
-  tableHtml += `
-  </tbody>
-</table>`;
+  const sections = PLATFORM_ORDER.flatMap(platform => {
+    const platformAssets = platformGroups[platform];
+    return platformAssets
+      ? [generatePlatformSection(platform, platformAssets)]
+      : [];
+  });
 
-  return tableHtml;
+  return html` <table>
+    <thead>
+      <tr>
+        <th scope="col">Architecture</th>
+        <th scope="col">File</th>
+        <th scope="col">Signature</th>
+        <th scope="col">Size</th>
+      </tr>
+    </thead>
+    <tbody>
+      ${sections}
+    </tbody>
+  </table>`;
 }
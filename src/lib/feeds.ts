@@ -0,0 +1,206 @@
+import {
+  fetchChangelog,
+  renderChangelogSections,
+  type ChangelogEntry,
+} from './changelog';
+import { SITE_URL } from './config';
+import { fetchReleaseArchive } from './downloads';
+import { html, type SafeHtml } from './html';
+import {
+  fetchAllProviderStats,
+  isListedProvider,
+  satoshisToBtc,
+  type ProviderQuoteStats,
+} from './liquidity';
+
+// Atom feeds (RFC 4287) built from the same data as the pages, so they
+// update with every build. Linked from the layout.
+
+export interface AtomEntry {
+  id: string; // must never change, feed readers deduplicate by it
+  title: string;
+  link: string;
+  updated: string; // ISO 8601
+  content: SafeHtml;
+}
+
+export interface AtomFeed {
+  id: string;
+  title: string;
+  subtitle: string;
+  selfUrl: string;
+  link: string; // the page the feed mirrors
+  updated: string; // ISO 8601
+  entries: AtomEntry[];
+}
+
+export const RELEASES_FEED_PATH = '/feeds/releases.xml';
+export const LIQUIDITY_FEED_PATH = '/feeds/liquidity.xml';
+
+const MAX_RELEASE_ENTRIES = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Providers that went offline longer ago than this are no longer news
+const OFFLINE_EVENT_WINDOW_DAYS = 7;
+
+function absoluteUrl(path: string): string {
+  return `${SITE_URL}${path}`;
+}
+
+/**
+ * Serialize `feed`. Entry content is HTML, escaped once more as the
+ * text of a `type="html"` element.
+ */
+export function renderAtomFeed(feed: AtomFeed): string {
+  const entries = feed.entries.map(
+    entry =>
+      html`<entry>
+        <id>${entry.id}</id>
+        <title>${entry.title}</title>
+        <link rel="alternate" type="text/html" href="${entry.link}" />
+        <updated>${entry.updated}</updated>
+        <content type="html">${entry.content.toString()}</content>
+      </entry>`
+  );
+
+  return `<?xml version="1.0" encoding="utf-8"?>
+${html`<feed xmlns="http://www.w3.org/2005/Atom">
+  <id>${feed.id}</id>
+  <title>${feed.title}</title>
+  <subtitle>${feed.subtitle}</subtitle>
+  <link rel="self" type="application/atom+xml" href="${feed.selfUrl}" />
+  <link rel="alternate" type="text/html" href="${feed.link}" />
+  <updated>${feed.updated}</updated>
+  <author><name>eigenwallet</name></author>
+  ${entries}
+</feed>`}
+`;
+}
+
+// The newest entry, or now for an empty feed
+function getFeedUpdated(entries: AtomEntry[]): string {
+  const newest = Math.max(...entries.map(entry => Date.parse(entry.updated)));
+  return new Date(Number.isFinite(newest) ? newest : Date.now()).toISOString();
+}
+
+function renderReleaseContent(
+  version: string,
+  notes: ChangelogEntry | undefined
+): SafeHtml {
+  const link = absoluteUrl(`/download/${encodeURIComponent(version)}`);
+  return html`${notes ? renderChangelogSections(notes) : ''}
+    <p><a href="${link}">Download eigenwallet ${version}</a></p>`;
+}
+
+/**
+ * The latest releases, with their changelog notes
+ */
+export async function getReleasesFeed(): Promise<AtomFeed> {
+  const [releases, changelog] = await Promise.all([
+    fetchReleaseArchive(),
+    fetchChangelog(),
+  ]);
+
+  const entries = releases.slice(0, MAX_RELEASE_ENTRIES).map(release => {
+    const notes = changelog?.data.find(
+      entry => entry.version === release.version
+    );
+    const link = absoluteUrl(
+      `/download/${encodeURIComponent(release.version)}`
+    );
+    return {
+      id: link,
+      title: release.prerelease
+        ? `eigenwallet ${release.version} (pre-release)`
+        : `eigenwallet ${release.version}`,
+      link,
+      updated: new Date(release.publishedAt).toISOString(),
+      content: renderReleaseContent(release.version, notes),
+    };
+  });
+
+  return {
+    id: absoluteUrl(RELEASES_FEED_PATH),
+    title: 'eigenwallet releases',
+    subtitle: 'New versions of the eigenwallet GUI and command-line tools',
+    selfUrl: absoluteUrl(RELEASES_FEED_PATH),
+    link: absoluteUrl('/download'),
+    updated: getFeedUpdated(entries),
+    entries,
+  };
+}
+
+function renderProviderContent(provider: ProviderQuoteStats): SafeHtml {
+  return html`<p>
+    Peer ID: <code>${provider.peer_id}</code><br />
+    Address: <code>${provider.multi_address}</code><br />
+    Swap limits: ${satoshisToBtc(provider.min_min_swap_amount)} to
+    ${satoshisToBtc(provider.max_max_swap_amount)} BTC
+  </p>`;
+}
+
+/**
+ * Events derived from a snapshot of the provider stats taken at
+ * `timestamp`: providers first seen less than a day ago, and providers
+ * that stopped responding within the last OFFLINE_EVENT_WINDOW_DAYS days
+ */
+function getLiquidityEvents(
+  providers: ProviderQuoteStats[],
+  timestamp: number
+): AtomEntry[] {
+  // Whole days, so the id of an offline event is the same in every build
+  const today = Math.floor(timestamp / DAY_MS) * DAY_MS;
+  const link = absoluteUrl('/liquidity');
+
+  return providers.flatMap(provider => {
+    const events: AtomEntry[] = [];
+    if (provider.age_days < 1) {
+      events.push({
+        id: `${link}#new-${provider.peer_id}`,
+        title: `New market maker ${provider.peer_id}`,
+        link,
+        updated: new Date(timestamp - provider.age_days * DAY_MS).toISOString(),
+        content: renderProviderContent(provider),
+      });
+    }
+
+    const offlineDays = provider.last_seen_ago_days;
+    if (offlineDays >= 1 && offlineDays <= OFFLINE_EVENT_WINDOW_DAYS) {
+      const lastSeen = new Date(today - Math.floor(offlineDays) * DAY_MS)
+        .toISOString()
+        .slice(0, 10);
+      events.push({
+        id: `${link}#offline-${provider.peer_id}-${lastSeen}`,
+        title: `Market maker ${provider.peer_id} went offline`,
+        link: isListedProvider(provider)
+          ? absoluteUrl(`/liquidity/${encodeURIComponent(provider.peer_id)}`)
+          : link,
+        updated: `${lastSeen}T00:00:00.000Z`,
+        content: html`<p>Last seen on ${lastSeen}.</p>
+          ${renderProviderContent(provider)}`,
+      });
+    }
+    return events;
+  });
+}
+
+/**
+ * New market makers and market makers going offline
+ */
+export async function getLiquidityFeed(): Promise<AtomFeed> {
+  const providers = await fetchAllProviderStats();
+  const entries = providers
+    ? getLiquidityEvents(providers.data, providers.timestamp).sort(
+        (a, b) => Date.parse(b.updated) - Date.parse(a.updated)
+      )
+    : [];
+
+  return {
+    id: absoluteUrl(LIQUIDITY_FEED_PATH),
+    title: 'eigenwallet market makers',
+    subtitle: 'Market makers joining and leaving the eigenwallet network',
+    selfUrl: absoluteUrl(LIQUIDITY_FEED_PATH),
+    link: absoluteUrl('/liquidity'),
+    updated: getFeedUpdated(entries),
+    entries,
+  };
+}
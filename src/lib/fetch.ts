@@ -1,26 +1,339 @@
+import { getFixtureMode, recordFixture, replayFixture } from './fixtures';
+import { shareInFlight } from './memo';
+
 const API_RETRIES = parseInt(process.env.API_RETRIES || '3', 10);
+const API_TIMEOUT_MS = parseInt(process.env.API_TIMEOUT_MS || '15000', 10);
+
+export interface RetryOptions {
+  retries?: number; // total number of attempts
+  timeoutMs?: number; // per attempt, covers connecting and reading the body
+  baseDelayMs?: number; // first backoff delay, doubled on every attempt
+  maxDelayMs?: number; // upper bound for a single backoff delay
+  maxRateLimitWaitMs?: number; // give up instead of waiting longer for a rate limit reset
+}
+
+const DEFAULT_RETRY_OPTIONS: Required<RetryOptions> = {
+  retries: API_RETRIES,
+  timeoutMs: API_TIMEOUT_MS,
+  baseDelayMs: 1000,
+  maxDelayMs: 30 * 1000,
+  maxRateLimitWaitMs: 60 * 1000,
+};
+
+/**
+ * Why a request ultimately failed:
+ * - timeout: no complete response within `timeoutMs`
+ * - network: DNS failure, connection reset, TLS error, ...
+ * - rate-limited: 429, or GitHub's 403 with an exhausted rate limit or
+ *   a Retry-After header
+ * - http: any other non-2xx status
+ */
+export type FetchErrorKind = 'timeout' | 'network' | 'rate-limited' | 'http';
+
+export class FetchError extends Error {
+  readonly kind: FetchErrorKind;
+  readonly url: string;
+  readonly attempts: number;
+  readonly status?: number;
+
+  constructor(
+    kind: FetchErrorKind,
+    url: string,
+    attempts: number,
+    status?: number,
+    cause?: unknown
+  ) {
+    const detail = status !== undefined ? ` (status ${status})` : '';
+    super(
+      `${url} failed: ${kind}${detail} after ${attempts} attempt(s)`,
+      cause !== undefined ? { cause } : undefined
+    );
+    this.name = 'FetchError';
+    this.kind = kind;
+    this.url = url;
+    this.attempts = attempts;
+    this.status = status;
+  }
+}
+
+/**
+ * One-line description of a fetch failure for build logs
+ */
+export function describeFetchError(error: unknown): string {
+  if (error instanceof FetchError) {
+    // undici wraps the underlying socket/DNS error in a generic "fetch failed"
+    let cause = error.cause;
+    while (cause instanceof Error && cause.cause instanceof Error) {
+      cause = cause.cause;
+    }
+    return cause instanceof Error
+      ? `${error.message}: ${cause.message}`
+      : error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
 
 /**
- * Fetch with retry logic for transient failures
+ * Fetch with retry logic for transient failures.
+ *
+ * Timeouts, network errors, 429s and 5xx responses are retried with
+ * exponential backoff and jitter; rate-limited responses wait for
+ * `Retry-After` / `x-ratelimit-reset` instead. Resolves only with a 2xx
+ * response and throws a FetchError otherwise.
+ *
+ * Identical concurrent GET requests share one underlying request;
+ * each caller receives its own clone of the response.
+ *
+ * With FIXTURES=replay responses come from the fixtures directory instead
+ * of the network, FIXTURES=record saves every successful response there
+ * except release downloads.
  */
 export async function fetchWithRetry(
   url: string,
   options?: RequestInit,
-  retries = API_RETRIES
+  retryOptions: RetryOptions = {}
 ): Promise<Response> {
+  const fixtureMode = getFixtureMode();
+  if (fixtureMode === 'replay') {
+    return replay(url);
+  }
+
+  const opts = { ...DEFAULT_RETRY_OPTIONS, ...retryOptions };
+  const method = options?.method?.toUpperCase() ?? 'GET';
+  if (method !== 'GET') {
+    return fetchWithRetryUnshared(url, options, opts);
+  }
+
+  const headers = [...new Headers(options?.headers).entries()];
+  const key = `${url} ${JSON.stringify(headers)}`;
+  const response = await shareInFlight(key, async () => {
+    const response = await fetchWithRetryUnshared(url, options, opts);
+    if (fixtureMode === 'record') {
+      await recordFixture(url, response);
+    }
+    return response;
+  });
+  return response.clone();
+}
+
+/**
+ * Like fetchWithRetry, but the body is not buffered: it streams from the
+ * network as the caller reads it, so release artifacts are never held in
+ * memory. `timeoutMs` covers the whole transfer, and only failures before
+ * the body starts are retried. Never shared between callers nor recorded.
+ */
+export async function fetchStream(
+  url: string,
+  options?: RequestInit,
+  retryOptions: RetryOptions = {}
+): Promise<Response> {
+  if (getFixtureMode() === 'replay') {
+    return replay(url);
+  }
+  const opts = { ...DEFAULT_RETRY_OPTIONS, ...retryOptions };
+  return fetchWithRetryUnshared(url, options, opts, true);
+}
+
+function replay(url: string): Response {
+  const response = replayFixture(url);
+  if (!response) {
+    throw new FetchError(
+      'network',
+      url,
+      0,
+      undefined,
+      new Error('No fixture recorded for this URL, run with FIXTURES=record')
+    );
+  }
+  if (!response.ok) {
+    throw new FetchError('http', url, 0, response.status);
+  }
+  return response;
+}
+
+async function fetchWithRetryUnshared(
+  url: string,
+  options: RequestInit | undefined,
+  opts: Required<RetryOptions>,
+  stream = false
+): Promise<Response> {
+  const retries = Math.max(1, opts.retries);
+
   for (let attempt = 1; attempt <= retries; attempt++) {
-    const response = await fetch(url, options);
-    if (response.ok) {
-      return response;
+    let failure: FetchError;
+    let waitMs = backoffDelay(attempt, opts);
+
+    try {
+      const response = await fetchOnce(url, options, opts.timeoutMs, stream);
+      if (response.ok) {
+        return response;
+      }
+
+      const rateLimitWaitMs = getRateLimitWait(response);
+      if (rateLimitWaitMs !== null) {
+        failure = new FetchError('rate-limited', url, attempt, response.status);
+        if (rateLimitWaitMs > opts.maxRateLimitWaitMs) {
+          console.warn(
+            `Rate limited by ${new URL(url).host}, reset in ${Math.ceil(rateLimitWaitMs / 1000)}s, not waiting`
+          );
+          throw failure;
+        }
+        waitMs = rateLimitWaitMs;
+      } else if (response.status >= 500) {
+        failure = new FetchError('http', url, attempt, response.status);
+      } else {
+        // Other 4xx responses will not change on retry
+        throw new FetchError('http', url, attempt, response.status);
+      }
+    } catch (error) {
+      if (error instanceof FetchError) {
+        throw error;
+      }
+      const kind = isTimeout(error) ? 'timeout' : 'network';
+      failure = new FetchError(kind, url, attempt, undefined, error);
+    }
+
+    if (attempt === retries) {
+      throw failure;
+    }
+
+    console.warn(
+      `Attempt ${attempt}/${retries} failed (${failure.kind}${failure.status ? ` ${failure.status}` : ''}), retrying in ${(waitMs / 1000).toFixed(1)}s...`
+    );
+    await new Promise(resolve => setTimeout(resolve, waitMs));
+  }
+
+  // Unreachable, the last attempt always returns or throws
+  throw new FetchError('network', url, retries);
+}
+
+/**
+ * Single attempt. The body is read inside the timeout so a stalled
+ * transfer fails the attempt instead of hanging the build. With `stream`,
+ * a successful body is handed over unread and the timeout runs until the
+ * caller has read it.
+ */
+async function fetchOnce(
+  url: string,
+  options: RequestInit | undefined,
+  timeoutMs: number,
+  stream = false
+): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(
+    () =>
+      controller.abort(new DOMException('Request timed out', 'TimeoutError')),
+    timeoutMs
+  );
+  const signal = options?.signal
+    ? AbortSignal.any([options.signal, controller.signal])
+    : controller.signal;
+
+  let streaming = false;
+  try {
+    const response = await fetch(url, { ...options, signal });
+    let body: ArrayBuffer | ReadableStream<Uint8Array> | null = null;
+    if (stream && response.ok && response.body) {
+      streaming = true;
+      body = onceDone(response.body, () => clearTimeout(timer));
+    } else if (!isNullBodyStatus(response.status)) {
+      body = await response.arrayBuffer();
     }
-    if (attempt < retries && response.status >= 500) {
-      console.warn(
-        `Attempt ${attempt}/${retries} failed with status ${response.status}, retrying...`
-      );
-      await new Promise(resolve => setTimeout(resolve, 1000 * attempt));
-    } else {
-      return response;
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  } finally {
+    if (!streaming) {
+      clearTimeout(timer);
     }
   }
-  return fetch(url, options);
+}
+
+/**
+ * Pass `body` through, calling `done` once it ends, fails or is cancelled
+ */
+function onceDone(
+  body: ReadableStream<Uint8Array>,
+  done: () => void
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  return new ReadableStream({
+    async pull(controller) {
+      try {
+        const { done: ended, value } = await reader.read();
+        if (ended) {
+          done();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        done();
+        controller.error(error);
+      }
+    },
+    cancel(reason) {
+      done();
+      return reader.cancel(reason);
+    },
+  });
+}
+
+function isNullBodyStatus(status: number): boolean {
+  return status === 204 || status === 205 || status === 304;
+}
+
+function isTimeout(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'TimeoutError';
+}
+
+/**
+ * Exponential backoff with "equal jitter": half the delay is fixed,
+ * the other half random, so parallel builds don't retry in lockstep.
+ */
+function backoffDelay(attempt: number, opts: Required<RetryOptions>): number {
+  const delay = Math.min(
+    opts.maxDelayMs,
+    opts.baseDelayMs * 2 ** (attempt - 1)
+  );
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+/**
+ * How long to wait before retrying a rate-limited response,
+ * or null if the response is not rate limited.
+ */
+function getRateLimitWait(response: Response): number | null {
+  const retryAfter = response.headers.get('retry-after');
+  // GitHub's secondary rate limit is a 403 with Retry-After, while
+  // requests remain in the primary one
+  const exhausted =
+    response.status === 429 ||
+    (response.status === 403 &&
+      (retryAfter !== null ||
+        response.headers.get('x-ratelimit-remaining') === '0'));
+  if (!exhausted) {
+    return null;
+  }
+
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) {
+      return seconds * 1000;
+    }
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) {
+      return Math.max(0, date - Date.now());
+    }
+  }
+
+  const reset = response.headers.get('x-ratelimit-reset');
+  if (reset) {
+    return Math.max(0, Number(reset) * 1000 - Date.now());
+  }
+
+  // Rate limited without a hint, fall back to a minute
+  return 60 * 1000;
 }
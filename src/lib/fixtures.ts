@@ -0,0 +1,103 @@
+import fs from 'fs';
+import path from 'path';
+
+// Record/replay of upstream responses for offline, reproducible builds.
+//
+//   FIXTURES=record  fetch live and save every successful response
+//   FIXTURES=replay  never touch the network, serve the saved responses
+//
+// Each response is stored as two files: `<name>.body` holds the exact bytes
+// that were received and `<name>.json` the URL, status and content type.
+//
+// Release downloads are never recorded: real artifacts are hundreds of MB,
+// and the small fake assets under fixtures/github.com are made by hand and
+// signed with fixtures/test-signing-key.asc.
+
+export type FixtureMode = 'record' | 'replay';
+
+const FIXTURES_DIR = process.env.FIXTURES_DIR || 'fixtures';
+
+// Only headers that affect how callers read the body are kept
+const RECORDED_HEADERS = ['content-type'];
+
+interface FixtureMeta {
+  url: string;
+  status: number;
+  statusText: string;
+  headers: Record<string, string>;
+}
+
+export function getFixtureMode(): FixtureMode | null {
+  const mode = process.env.FIXTURES;
+  if (!mode) {
+    return null;
+  }
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error(`Invalid FIXTURES mode "${mode}", use record or replay`);
+  }
+  return mode;
+}
+
+/**
+ * Map a URL to a readable, filesystem-safe path, e.g.
+ * https://api.github.com/repos/eigenwallet/core/releases/latest
+ *   -> fixtures/api.github.com/repos_eigenwallet_core_releases_latest
+ */
+function getFixturePath(url: string): string {
+  const { host, pathname, search } = new URL(url);
+  const name = `${pathname.slice(1)}${search}`.replace(/[^a-zA-Z0-9.-]/g, '_');
+  return path.join(FIXTURES_DIR, host, name || 'index');
+}
+
+function isReleaseDownload(url: string): boolean {
+  const { host, pathname } = new URL(url);
+  return host === 'github.com' && pathname.includes('/releases/download/');
+}
+
+export async function recordFixture(
+  url: string,
+  response: Response
+): Promise<void> {
+  if (isReleaseDownload(url)) {
+    return;
+  }
+
+  const fixturePath = getFixturePath(url);
+  const meta: FixtureMeta = {
+    url,
+    status: response.status,
+    statusText: response.statusText,
+    headers: Object.fromEntries(
+      RECORDED_HEADERS.flatMap(name => {
+        const value = response.headers.get(name);
+        return value !== null ? [[name, value]] : [];
+      })
+    ),
+  };
+  const body = Buffer.from(await response.clone().arrayBuffer());
+
+  fs.mkdirSync(path.dirname(fixturePath), { recursive: true });
+  fs.writeFileSync(`${fixturePath}.body`, body);
+  fs.writeFileSync(`${fixturePath}.json`, JSON.stringify(meta, null, 2) + '\n');
+  console.log(`Recorded fixture: ${fixturePath}`);
+}
+
+/**
+ * Returns the recorded response for a URL, or null if none was recorded
+ */
+export function replayFixture(url: string): Response | null {
+  const fixturePath = getFixturePath(url);
+  if (!fs.existsSync(`${fixturePath}.json`)) {
+    return null;
+  }
+
+  const meta: FixtureMeta = JSON.parse(
+    fs.readFileSync(`${fixturePath}.json`, 'utf-8')
+  );
+  const body = fs.readFileSync(`${fixturePath}.body`);
+  return new Response(body, {
+    status: meta.status,
+    statusText: meta.statusText,
+    headers: meta.headers,
+  });
+}
@@ -0,0 +1,104 @@
+import { formatAsOf, type TimestampedData } from './cache';
+import { describeFetchError } from './fetch';
+
+// Build-time status of every upstream data source. Fetchers report here
+// as they load, pages read it back to warn visitors about degraded data,
+// and /data-health.json publishes the full report.
+
+export interface DataSource {
+  id: string;
+  label: string; // shown to visitors, e.g. "Offers"
+}
+
+/**
+ * - fresh: fetched live during this build
+ * - cached: served from a cache entry that has not expired yet
+ * - stale: the live request failed and an expired cache entry was served
+ * - failed: the live request failed and there was nothing to fall back to
+ */
+export type DataStatus = 'fresh' | 'cached' | 'stale' | 'failed';
+
+export interface SourceHealth {
+  id: string;
+  label: string;
+  status: DataStatus;
+  timestamp: number | null; // when the served data was fetched
+  error: string | null;
+}
+
+export interface HealthReport {
+  generatedAt: string;
+  degraded: boolean;
+  sources: SourceHealth[];
+}
+
+const reports = new Map<string, SourceHealth>();
+
+/**
+ * Record a successful load and pass the result through
+ */
+export function reportHealth<T>(
+  source: DataSource,
+  status: 'fresh' | 'cached',
+  result: TimestampedData<T>
+): TimestampedData<T> {
+  reports.set(source.id, {
+    ...source,
+    status,
+    timestamp: result.timestamp,
+    error: null,
+  });
+  return result;
+}
+
+/**
+ * Record a failed live request and pass the stale fallback (if any) through
+ */
+export function reportFallback<T>(
+  source: DataSource,
+  stale: TimestampedData<T> | null,
+  error: unknown
+): TimestampedData<T> | null {
+  reports.set(source.id, {
+    ...source,
+    status: stale ? 'stale' : 'failed',
+    timestamp: stale?.timestamp ?? null,
+    error: describeFetchError(error),
+  });
+  return stale;
+}
+
+export function isDegraded(health: SourceHealth): boolean {
+  return health.status === 'stale' || health.status === 'failed';
+}
+
+/**
+ * Degraded sources among the given ones. Sources that have not been
+ * loaded yet are not reported.
+ */
+export function getDegradedSources(sources: DataSource[]): SourceHealth[] {
+  return sources
+    .map(source => reports.get(source.id))
+    .filter((health): health is SourceHealth => !!health && isDegraded(health));
+}
+
+export function getHealthReport(): HealthReport {
+  const sources = [...reports.values()].sort((a, b) =>
+    a.id.localeCompare(b.id)
+  );
+  return {
+    generatedAt: new Date().toISOString(),
+    degraded: sources.some(isDegraded),
+    sources,
+  };
+}
+
+/**
+ * Short visitor-facing description, e.g. "Offers (as of 2025-01-31 14:05 UTC)"
+ */
+export function describeHealth(health: SourceHealth): string {
+  if (health.status === 'failed' || health.timestamp === null) {
+    return `${health.label} (unavailable)`;
+  }
+  return `${health.label} (as of ${formatAsOf(health.timestamp)})`;
+}
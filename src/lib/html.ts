@@ -0,0 +1,81 @@
+// Escaping HTML templates for markup built outside of Astro components,
+// e.g. the download tables that go through `marked` and `set:html`.
+// Interpolated values are escaped unless they are markup from `html` itself:
+//
+//   html`<td><a href="${safeUrl(url)}">${name}</a></td>`
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+// Anything else, e.g. javascript: or data:, is replaced by SAFE_URL_FALLBACK
+const ALLOWED_URL_SCHEMES = ['https:', 'http:'];
+const SAFE_URL_FALLBACK = '#';
+
+/**
+ * Markup that is already escaped, interpolated into `html` as is
+ */
+export class SafeHtml {
+  readonly html: string;
+
+  constructor(html: string) {
+    this.html = html;
+  }
+
+  toString(): string {
+    return this.html;
+  }
+}
+
+export type HtmlValue =
+  SafeHtml | string | number | null | undefined | false | HtmlValue[];
+
+export function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, char => HTML_ESCAPES[char]);
+}
+
+function renderValue(value: HtmlValue): string {
+  if (value instanceof SafeHtml) return value.html;
+  if (Array.isArray(value)) return value.map(renderValue).join('');
+  if (value === null || value === undefined || value === false) return '';
+  return escapeHtml(String(value));
+}
+
+/**
+ * Tagged template that escapes every interpolated value. Arrays are
+ * joined, and null, undefined and false render as nothing.
+ */
+export function html(
+  strings: TemplateStringsArray,
+  ...values: HtmlValue[]
+): SafeHtml {
+  let result = strings[0];
+  for (let i = 0; i < values.length; i++) {
+    result += renderValue(values[i]) + strings[i + 1];
+  }
+  return new SafeHtml(result);
+}
+
+/**
+ * `url` if it is site-relative or uses an allowed scheme, otherwise a
+ * harmless placeholder. Still needs escaping, pass it through `html`.
+ */
+export function safeUrl(url: string): string {
+  // Site-relative, but not protocol-relative ("//evil.example")
+  if (/^\/(?!\/)/.test(url) || url.startsWith('#')) {
+    return url;
+  }
+  try {
+    if (ALLOWED_URL_SCHEMES.includes(new URL(url).protocol)) {
+      return url;
+    }
+  } catch {
+    // Not an absolute URL either
+  }
+  console.warn(`Refusing to link to ${JSON.stringify(url)}`);
+  return SAFE_URL_FALLBACK;
+}
@@ -0,0 +1,225 @@
+// Client-side: turns the server-rendered chart SVGs into interactive
+// Vega-Lite charts with tooltips, brush-to-zoom and range presets. The
+// static SVG stays in place if JavaScript or the chart fails to load.
+//
+// Charts opt in with the series as JSON in `data-chart` on their
+// `.chart-responsive` container.
+
+import type { TopLevelSpec } from 'vega-lite';
+
+/**
+ * One time series, as embedded into the page at build time
+ */
+export interface InteractiveChart {
+  label: string; // e.g. "Liquidity", shown in the tooltip
+  unit: string; // e.g. "BTC"
+  format: string; // d3 format of the values, e.g. ".2f"
+  color: string;
+  points: { date: string; value: number }[]; // YYYY-MM-DD, oldest first
+  band?: { date: string; low: number; high: number }[]; // replaces the fill
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// null shows the whole series
+const RANGE_PRESETS: { label: string; days: number | null }[] = [
+  { label: '7d', days: 7 },
+  { label: '30d', days: 30 },
+  { label: '90d', days: 90 },
+  { label: 'All', days: null },
+];
+
+const AXIS = {
+  labelFontSize: 12,
+  labelColor: '#666',
+  tickColor: 'transparent',
+  domainColor: 'transparent',
+  grid: false,
+};
+
+// The last `days` days of the series, counted from its newest point
+function selectRange<T extends { date: string }>(
+  points: T[],
+  days: number | null
+): T[] {
+  if (days === null || points.length === 0) {
+    return points;
+  }
+  const end = Date.parse(points[points.length - 1].date);
+  return points.filter(point => Date.parse(point.date) > end - days * DAY_MS);
+}
+
+/**
+ * The series as a detail view with a hover rule, above an overview strip
+ * whose brush selects the visible range of the detail view
+ */
+function createSpec(
+  chart: InteractiveChart,
+  points: InteractiveChart['points'],
+  band: InteractiveChart['band']
+): TopLevelSpec {
+  const x = {
+    field: 'date',
+    type: 'temporal' as const,
+    title: null,
+    axis: { ...AXIS, format: '%b %d', labelAngle: 0 },
+  };
+  const y = {
+    field: 'value',
+    type: 'quantitative' as const,
+    title: null,
+    // A band is narrow compared to its values, zero would flatten it
+    scale: { zero: !band },
+    axis: {
+      ...AXIS,
+      labelExpr: `format(datum.value, "${chart.format}") + " ${chart.unit}"`,
+    },
+  };
+  const fill = band
+    ? {
+        data: { values: band },
+        mark: { type: 'area' as const, color: chart.color, opacity: 0.25 },
+        encoding: { y: { ...y, field: 'low' }, y2: { field: 'high' } },
+      }
+    : {
+        mark: { type: 'area' as const, color: chart.color, opacity: 0.15 },
+        encoding: { y },
+      };
+
+  return {
+    $schema: 'https://vega.github.io/schema/vega-lite/v5.json',
+    background: 'transparent',
+    data: { values: points },
+    config: { view: { stroke: null } },
+    vconcat: [
+      {
+        width: 'container',
+        height: 300,
+        encoding: { x: { ...x, scale: { domain: { param: 'brush' } } } },
+        layer: [
+          fill,
+          {
+            mark: {
+              type: 'line',
+              color: chart.color,
+              strokeWidth: 2,
+              strokeCap: 'round',
+              strokeJoin: 'round',
+            },
+            encoding: { y },
+          },
+          {
+            mark: { type: 'rule', color: '#888' },
+            params: [
+              {
+                name: 'hover',
+                select: {
+                  type: 'point',
+                  fields: ['date'],
+                  nearest: true,
+                  on: 'pointerover',
+                  clear: 'pointerout',
+                },
+              },
+            ],
+            encoding: {
+              opacity: {
+                condition: { param: 'hover', empty: false, value: 1 },
+                value: 0,
+              },
+              tooltip: [
+                {
+                  field: 'date',
+                  type: 'temporal',
+                  title: 'Date',
+                  format: '%b %d, %Y',
+                },
+                {
+                  field: 'value',
+                  type: 'quantitative',
+                  title: `${chart.label} (${chart.unit})`,
+                  format: chart.format,
+                },
+              ],
+            },
+          },
+        ],
+      },
+      {
+        width: 'container',
+        height: 50,
+        mark: { type: 'area', color: chart.color, opacity: 0.3 },
+        params: [
+          { name: 'brush', select: { type: 'interval', encodings: ['x'] } },
+        ],
+        encoding: {
+          x: { ...x, axis: { ...x.axis, labelFontSize: 10 } },
+          y: { ...y, axis: null },
+        },
+      },
+    ],
+  };
+}
+
+async function enhanceChart(container: HTMLElement): Promise<void> {
+  const chart: InteractiveChart = JSON.parse(container.dataset.chart ?? '');
+  const { default: embed } = await import('vega-embed');
+
+  const target = document.createElement('div');
+  const presets = document.createElement('div');
+  presets.className = 'chart-presets';
+
+  let current: Awaited<ReturnType<typeof embed>> | null = null;
+  const render = async (days: number | null) => {
+    current?.finalize();
+    current = await embed(
+      target,
+      createSpec(
+        chart,
+        selectRange(chart.points, days),
+        chart.band && selectRange(chart.band, days)
+      ),
+      { actions: false, renderer: 'canvas', tooltip: { theme: 'dark' } }
+    );
+    for (const button of presets.querySelectorAll('button')) {
+      button.setAttribute(
+        'aria-pressed',
+        String(button.dataset.days === String(days))
+      );
+    }
+  };
+
+  for (const preset of RANGE_PRESETS) {
+    const button = document.createElement('button');
+    button.type = 'button';
+    button.textContent = preset.label;
+    button.dataset.days = String(preset.days);
+    button.addEventListener('click', () => render(preset.days));
+    presets.append(button);
+  }
+
+  // Laid out but invisible until it rendered, so a failure leaves the SVG
+  // untouched. Not `hidden`, the chart takes the width of its container.
+  target.className = 'chart-pending';
+  container.append(target);
+  try {
+    await render(null);
+  } catch (error) {
+    target.remove();
+    throw error;
+  }
+  container.querySelector(':scope > svg')?.remove();
+  target.className = '';
+  container.prepend(presets);
+}
+
+export function setupInteractiveCharts(): void {
+  const containers = document.querySelectorAll<HTMLElement>(
+    '.chart-responsive[data-chart]'
+  );
+  for (const container of containers) {
+    enhanceChart(container).catch(error =>
+      console.warn('Keeping the static chart:', error)
+    );
+  }
+}
@@ -1,26 +1,83 @@
-import * as vega from 'vega';
-import * as vl from 'vega-lite';
-import { getCache, setCache } from './cache';
-import { fetchWithRetry } from './fetch';
-
-const LIQUIDITY_DAILY_API_URL =
-  'https://api.eigenwallet.org/api/liquidity-daily';
-const LIST_API_URL = 'https://api.eigenwallet.org/api/list';
-const PROVIDER_QUOTE_STATS_API_URL =
-  'https://api.eigenwallet.org/api/provider-quote-stats';
-const PROVIDER_DAILY_SWAP_BOUNDS_API_URL =
-  'https://api.eigenwallet.org/api/provider-daily-swap-bounds';
-const DAILY_PRICE_STATS_API_URL =
-  'https://api.eigenwallet.org/api/daily-price-stats';
+import {
+  getCacheEntry,
+  getStaleCache,
+  setCache,
+  type CacheOptions,
+  type TimestampedData,
+} from './cache';
+import {
+  renderTimeSeriesChart,
+  toInteractiveChart,
+  type TimePoint,
+  type TimeSeriesChartOptions,
+} from './charts';
+import { EIGENWALLET_API_BASE } from './config';
+import { describeFetchError, fetchWithRetry } from './fetch';
+import { reportFallback, reportHealth, type DataSource } from './health';
+import type { InteractiveChart } from './interactive-charts';
+import { memoize } from './memo';
+import * as v from './validate';
+
+const LIQUIDITY_DAILY_API_URL = `${EIGENWALLET_API_BASE}/liquidity-daily`;
+const LIST_API_URL = `${EIGENWALLET_API_BASE}/list`;
+const PROVIDER_QUOTE_STATS_API_URL = `${EIGENWALLET_API_BASE}/provider-quote-stats`;
+const PROVIDER_DAILY_SWAP_BOUNDS_API_URL = `${EIGENWALLET_API_BASE}/provider-daily-swap-bounds`;
+const DAILY_PRICE_STATS_API_URL = `${EIGENWALLET_API_BASE}/daily-price-stats`;
 const CACHE_KEY = 'liquidity-daily';
 const OFFERS_CACHE_KEY = 'offers-list';
 const PROVIDERS_CACHE_KEY = 'provider-quote-stats';
 const PROVIDER_BOUNDS_CACHE_KEY = 'provider-daily-swap-bounds';
 const PRICE_STATS_CACHE_KEY = 'daily-price-stats';
 
-const FALLBACK_SVG = `<svg viewBox="0 0 800 200" preserveAspectRatio="xMidYMid meet" style="width:100%; height:auto; display:block;">
-  <text x="400" y="100" text-anchor="middle" fill="#666">No data available</text>
-</svg>`;
+// Bump `version` whenever the shape of the cached data changes
+const MINUTE_MS = 60 * 1000;
+const CACHE_OPTIONS: CacheOptions = { ttlMs: 60 * MINUTE_MS, version: 1 };
+const OFFERS_CACHE_OPTIONS: CacheOptions = { ttlMs: 5 * MINUTE_MS, version: 1 };
+const PROVIDERS_CACHE_OPTIONS: CacheOptions = {
+  ttlMs: 10 * MINUTE_MS,
+  version: 2,
+};
+const PROVIDER_BOUNDS_CACHE_OPTIONS: CacheOptions = {
+  ttlMs: 60 * MINUTE_MS,
+  version: 1,
+};
+const PRICE_STATS_CACHE_OPTIONS: CacheOptions = {
+  ttlMs: 60 * MINUTE_MS,
+  version: 1,
+};
+
+const LIQUIDITY_SOURCE: DataSource = { id: CACHE_KEY, label: 'Liquidity' };
+const OFFERS_SOURCE: DataSource = { id: OFFERS_CACHE_KEY, label: 'Offers' };
+const PROVIDERS_SOURCE: DataSource = {
+  id: PROVIDERS_CACHE_KEY,
+  label: 'Provider statistics',
+};
+const PROVIDER_BOUNDS_SOURCE: DataSource = {
+  id: PROVIDER_BOUNDS_CACHE_KEY,
+  label: 'Provider swap limits',
+};
+const PRICE_STATS_SOURCE: DataSource = {
+  id: PRICE_STATS_CACHE_KEY,
+  label: 'Price history',
+};
+
+/**
+ * Data sources behind the liquidity page
+ */
+export const LIQUIDITY_SOURCES: DataSource[] = [
+  LIQUIDITY_SOURCE,
+  PRICE_STATS_SOURCE,
+  OFFERS_SOURCE,
+  PROVIDERS_SOURCE,
+];
+
+/**
+ * Data sources behind the provider detail pages
+ */
+export const PROVIDER_SOURCES: DataSource[] = [
+  PROVIDERS_SOURCE,
+  PROVIDER_BOUNDS_SOURCE,
+];
 
 interface LiquidityDayData {
   date: number[]; // [year, day_of_year]
@@ -29,6 +86,9 @@ interface LiquidityDayData {
 
 export interface LiquidityData {
   chartSvg: string;
+  chart: InteractiveChart | null; // client-side enhancement of the SVG
+  timestamp: number | null; // when the underlying data was fetched
+  stale: boolean;
 }
 
 export interface Offer {
@@ -64,52 +124,119 @@ export interface DailyPriceStats {
   avg_price: number; // satoshis per XMR
 }
 
+export interface ProviderChartData {
+  chartSvg: string;
+  chart: InteractiveChart | null; // client-side enhancement of the SVG
+}
+
 export interface PriceChartData {
   chartSvg: string;
+  chart: InteractiveChart | null; // client-side enhancement of the SVG
+  spreadChartSvg: string; // daily spread in percent of the average price
+  spreadChart: InteractiveChart | null;
+  timestamp: number | null; // when the underlying data was fetched
+  stale: boolean;
+}
+
+// One day of DailyPriceStats, in BTC per XMR
+interface PriceDay {
+  date: string; // YYYY-MM-DD
+  avg: number;
+  lowest: number;
+  highest: number;
 }
 
+const LIQUIDITY_DAY_SCHEMA: v.Schema<LiquidityDayData> = {
+  date: v.arrayOf(v.number, 2),
+  totalLiquidityBtc: v.number,
+};
+
+const OFFER_SCHEMA: v.Schema<Offer> = {
+  peerId: v.string,
+  multiAddr: v.string,
+  price: v.number,
+  minSwapAmount: v.number,
+  maxSwapAmount: v.number,
+  testnet: v.boolean,
+};
+
+const PROVIDER_QUOTE_STATS_SCHEMA: v.Schema<ProviderQuoteStats> = {
+  peer_id: v.string,
+  multi_address: v.string,
+  max_max_swap_amount: v.number,
+  min_min_swap_amount: v.number,
+  online_days: v.number,
+  age_days: v.number,
+  last_seen_ago_days: v.number,
+};
+
+const PROVIDER_DAILY_SWAP_BOUNDS_SCHEMA: v.Schema<ProviderDailySwapBounds> = {
+  day: v.isoDate,
+  peer_id: v.string,
+  daily_max_max_swap_amount: v.number,
+  daily_min_min_swap_amount: v.number,
+};
+
+const DAILY_PRICE_STATS_SCHEMA: v.Schema<DailyPriceStats> = {
+  date: v.arrayOf(v.number, 2),
+  lowest_price: v.number,
+  highest_price: v.number,
+  avg_price: v.number,
+};
+
 const SATOSHIS_PER_BTC = 100000000;
 
 /**
  * Fetch liquidity data from API with caching
+ * Falls back to stale cached data if the API is unavailable
  */
-async function fetchLiquidityData(): Promise<LiquidityDayData[] | null> {
+async function loadLiquidityData(): Promise<TimestampedData<
+  LiquidityDayData[]
+> | null> {
   // Check cache first
-  const cached = getCache<LiquidityDayData[]>(CACHE_KEY);
+  const cached = getCacheEntry<LiquidityDayData[]>(CACHE_KEY, CACHE_OPTIONS);
   if (cached) {
-    return cached;
+    return reportHealth(LIQUIDITY_SOURCE, 'cached', cached);
   }
 
+  let payload: unknown;
   try {
     console.log('Fetching liquidity data from API...');
     const response = await fetchWithRetry(LIQUIDITY_DAILY_API_URL);
-
-    if (!response.ok) {
-      console.warn(`Liquidity API responded with status: ${response.status}`);
-      return null;
-    }
-
-    const data: LiquidityDayData[] = await response.json();
-    setCache(CACHE_KEY, data);
-    return data;
+    payload = await response.json();
   } catch (error) {
-    console.warn('Failed to fetch liquidity data:', error);
-    return null;
+    console.warn('Failed to fetch liquidity data:', describeFetchError(error));
+    return reportFallback(
+      LIQUIDITY_SOURCE,
+      getStaleCache(CACHE_KEY, CACHE_OPTIONS),
+      error
+    );
   }
+
+  const data = v.validateRecords(
+    payload,
+    LIQUIDITY_DAY_SCHEMA,
+    'liquidity-daily'
+  );
+  return reportHealth(
+    LIQUIDITY_SOURCE,
+    'fresh',
+    setCache(CACHE_KEY, data, CACHE_OPTIONS)
+  );
 }
 
 /**
- * Generate SVG chart for liquidity data using Vega-Lite
+ * Daily liquidity history, the data behind the liquidity chart
  */
-async function generateLiquidityChart(
-  liquidityData: LiquidityDayData[]
-): Promise<string> {
-  if (liquidityData.length === 0) {
-    return FALLBACK_SVG;
-  }
+export function fetchLiquidityData(): Promise<TimestampedData<
+  LiquidityDayData[]
+> | null> {
+  return memoize(CACHE_KEY, loadLiquidityData);
+}
 
-  // Transform data for Vega-Lite
-  const chartData = liquidityData
+// Chart points in chronological order (oldest to newest)
+function toLiquidityChartData(liquidityData: LiquidityDayData[]): TimePoint[] {
+  return liquidityData
     .map(d => {
       const year = d.date[0];
       const dayOfYear = d.date[1];
@@ -117,91 +244,30 @@ async function generateLiquidityChart(
 
       return {
         date: date.toISOString().split('T')[0],
-        liquidity: d.totalLiquidityBtc,
+        value: d.totalLiquidityBtc,
       };
     })
-    .reverse(); // Show chronological order (oldest to newest)
-
-  const spec: vl.TopLevelSpec = {
-    $schema: 'https://vega.github.io/schema/vega-lite/v5.json',
-    width: 750,
-    height: 400,
-    background: 'transparent',
-    padding: { left: 0, right: 0, top: 0, bottom: 0 },
-    data: { values: chartData },
-    layer: [
-      // Area fill
-      {
-        mark: {
-          type: 'area',
-          color: '#ff6b35',
-          opacity: 0.15,
-          line: false,
-        },
-        encoding: {
-          x: {
-            title: null,
-            field: 'date',
-            type: 'temporal',
-            axis: {
-              format: '%b %d',
-              labelAngle: 0,
-              labelFontSize: 14,
-              labelColor: '#666',
-              tickColor: 'transparent',
-              domainColor: 'transparent',
-              grid: false,
-            },
-          },
-          y: {
-            title: null,
-            field: 'liquidity',
-            type: 'quantitative',
-            axis: {
-              labelFontSize: 14,
-              labelColor: '#666',
-              tickColor: 'transparent',
-              domainColor: 'transparent',
-              grid: false,
-              labelExpr:
-                'datum.value == 0 ? "" : format(datum.value, ".0f") + " BTC"',
-            },
-          },
-        },
-      },
-      // Line
+    .reverse();
+}
+
+function liquidityChartOptions(
+  liquidityData: LiquidityDayData[]
+): TimeSeriesChartOptions {
+  return {
+    name: 'liquidity',
+    unit: 'BTC',
+    axisFormat: '.0f',
+    valueFormat: '.2f',
+    hideZeroLabel: true,
+    series: [
       {
-        mark: {
-          type: 'line',
-          color: '#ff6b35',
-          strokeWidth: 2,
-          strokeCap: 'round',
-          strokeJoin: 'round',
-        },
-        encoding: {
-          x: { field: 'date', type: 'temporal' },
-          y: { field: 'liquidity', type: 'quantitative' },
-        },
+        label: 'Liquidity',
+        color: '#ff6b35',
+        fill: true,
+        points: toLiquidityChartData(liquidityData),
       },
     ],
   };
-
-  try {
-    const vegaSpec = vl.compile(spec).spec;
-    const view = new vega.View(vega.parse(vegaSpec), { renderer: 'none' });
-    const svg = await view.toSVG();
-    // Remove fixed width/height and make responsive using viewBox
-    return svg
-      .replace(/\s*width="[^"]*"/, '')
-      .replace(/\s*height="[^"]*"/, '')
-      .replace(
-        '<svg',
-        '<svg style="width: 100%; height: auto; display: block;"'
-      );
-  } catch (error) {
-    console.error('Failed to generate liquidity chart:', error);
-    return FALLBACK_SVG;
-  }
 }
 
 /**
@@ -209,41 +275,55 @@ async function generateLiquidityChart(
  */
 export async function getLiquidityData(): Promise<LiquidityData> {
   const liquidityData = await fetchLiquidityData();
-  const chartSvg = liquidityData
-    ? await generateLiquidityChart(liquidityData)
-    : FALLBACK_SVG;
+  const options = liquidityChartOptions(liquidityData?.data ?? []);
 
-  return { chartSvg };
+  return {
+    chartSvg: await renderTimeSeriesChart(options),
+    chart: toInteractiveChart(options),
+    timestamp: liquidityData?.timestamp ?? null,
+    stale: liquidityData?.stale ?? false,
+  };
 }
 
 /**
  * Fetch current offers from API with caching
- * Returns null on network error, empty array if no offers available
+ * Falls back to stale cached data on network error, returns null if there is none
  */
-export async function fetchOffers(): Promise<Offer[] | null> {
-  const cached = getCache<Offer[]>(OFFERS_CACHE_KEY);
+async function loadOffers(): Promise<TimestampedData<Offer[]> | null> {
+  const cached = getCacheEntry<Offer[]>(OFFERS_CACHE_KEY, OFFERS_CACHE_OPTIONS);
   if (cached) {
-    return cached;
+    return reportHealth(OFFERS_SOURCE, 'cached', cached);
   }
 
+  let payload: unknown;
   try {
     console.log('Fetching offers data from API...');
     const response = await fetchWithRetry(LIST_API_URL);
-
-    if (!response.ok) {
-      console.warn(`List API responded with status: ${response.status}`);
-      return null;
-    }
-
-    const data: Offer[] = await response.json();
-    // Filter out testnet offers
-    const mainnetOffers = data.filter(offer => !offer.testnet);
-    setCache(OFFERS_CACHE_KEY, mainnetOffers);
-    return mainnetOffers;
+    payload = await response.json();
   } catch (error) {
-    console.warn('Failed to fetch offers data:', error);
-    return null;
+    console.warn('Failed to fetch offers data:', describeFetchError(error));
+    return reportFallback(
+      OFFERS_SOURCE,
+      getStaleCache(OFFERS_CACHE_KEY, OFFERS_CACHE_OPTIONS),
+      error
+    );
   }
+
+  const data = v.validateRecords(payload, OFFER_SCHEMA, 'offers');
+  // Filter out testnet offers
+  const mainnetOffers = data.filter(offer => !offer.testnet);
+  return reportHealth(
+    OFFERS_SOURCE,
+    'fresh',
+    setCache(OFFERS_CACHE_KEY, mainnetOffers, OFFERS_CACHE_OPTIONS)
+  );
+}
+
+/**
+ * Current offers, fetched once and shared by every page in the build
+ */
+export function fetchOffers(): Promise<TimestampedData<Offer[]> | null> {
+  return memoize(OFFERS_CACHE_KEY, loadOffers);
 }
 
 /**
@@ -284,68 +364,129 @@ export function btcToXmr(
 
 /**
  * Fetch provider quote stats from API with caching
- * Returns null on network error, empty array if no providers available
+ * Falls back to stale cached data on network error, returns null if there is none
  */
-export async function fetchProviderStats(): Promise<
-  ProviderQuoteStats[] | null
-> {
-  const cached = getCache<ProviderQuoteStats[]>(PROVIDERS_CACHE_KEY);
+async function loadProviderStats(): Promise<TimestampedData<
+  ProviderQuoteStats[]
+> | null> {
+  const cached = getCacheEntry<ProviderQuoteStats[]>(
+    PROVIDERS_CACHE_KEY,
+    PROVIDERS_CACHE_OPTIONS
+  );
   if (cached) {
-    return cached;
+    return reportHealth(PROVIDERS_SOURCE, 'cached', cached);
   }
 
+  let payload: unknown;
   try {
     console.log('Fetching provider stats from API...');
     const response = await fetchWithRetry(PROVIDER_QUOTE_STATS_API_URL);
-
-    if (!response.ok) {
-      console.warn(
-        `Provider stats API responded with status: ${response.status}`
-      );
-      return null;
-    }
-
-    const data: ProviderQuoteStats[] = await response.json();
-    // Filter to providers with more than 1 online day
-    const filtered = data.filter(p => p.online_days > 1);
-    setCache(PROVIDERS_CACHE_KEY, filtered);
-    return filtered;
+    payload = await response.json();
   } catch (error) {
-    console.warn('Failed to fetch provider stats:', error);
-    return null;
+    console.warn('Failed to fetch provider stats:', describeFetchError(error));
+    return reportFallback(
+      PROVIDERS_SOURCE,
+      getStaleCache(PROVIDERS_CACHE_KEY, PROVIDERS_CACHE_OPTIONS),
+      error
+    );
   }
+
+  const data = v.validateRecords(
+    payload,
+    PROVIDER_QUOTE_STATS_SCHEMA,
+    'provider-quote-stats'
+  );
+  return reportHealth(
+    PROVIDERS_SOURCE,
+    'fresh',
+    setCache(PROVIDERS_CACHE_KEY, data, PROVIDERS_CACHE_OPTIONS)
+  );
+}
+
+/**
+ * Quote stats of every provider the API knows, including ones that were
+ * only just seen for the first time
+ */
+export function fetchAllProviderStats(): Promise<TimestampedData<
+  ProviderQuoteStats[]
+> | null> {
+  return memoize(PROVIDERS_CACHE_KEY, loadProviderStats);
+}
+
+/**
+ * Whether `provider` is listed on the site and has a page of its own
+ */
+export function isListedProvider(provider: ProviderQuoteStats): boolean {
+  return provider.online_days > 1;
+}
+
+/**
+ * Quote stats of the listed providers, fetched once and shared by every
+ * page in the build
+ */
+export async function fetchProviderStats(): Promise<TimestampedData<
+  ProviderQuoteStats[]
+> | null> {
+  const providers = await fetchAllProviderStats();
+  return (
+    providers && {
+      ...providers,
+      data: providers.data.filter(isListedProvider),
+    }
+  );
 }
 
 /**
  * Fetch provider daily swap bounds from API with caching
- * Returns null on network error, empty array if no bounds available
+ * Falls back to stale cached data on network error, returns null if there is none
  */
-export async function fetchProviderDailyBounds(): Promise<
-  ProviderDailySwapBounds[] | null
-> {
-  const cached = getCache<ProviderDailySwapBounds[]>(PROVIDER_BOUNDS_CACHE_KEY);
+async function loadProviderDailyBounds(): Promise<TimestampedData<
+  ProviderDailySwapBounds[]
+> | null> {
+  const cached = getCacheEntry<ProviderDailySwapBounds[]>(
+    PROVIDER_BOUNDS_CACHE_KEY,
+    PROVIDER_BOUNDS_CACHE_OPTIONS
+  );
   if (cached) {
-    return cached;
+    return reportHealth(PROVIDER_BOUNDS_SOURCE, 'cached', cached);
   }
 
+  let payload: unknown;
   try {
     console.log('Fetching provider daily bounds from API...');
     const response = await fetchWithRetry(PROVIDER_DAILY_SWAP_BOUNDS_API_URL);
-
-    if (!response.ok) {
-      console.warn(
-        `Provider daily bounds API responded with status: ${response.status}`
-      );
-      return null;
-    }
-
-    const data: ProviderDailySwapBounds[] = await response.json();
-    setCache(PROVIDER_BOUNDS_CACHE_KEY, data);
-    return data;
+    payload = await response.json();
   } catch (error) {
-    console.warn('Failed to fetch provider daily bounds:', error);
-    return null;
+    console.warn(
+      'Failed to fetch provider daily bounds:',
+      describeFetchError(error)
+    );
+    return reportFallback(
+      PROVIDER_BOUNDS_SOURCE,
+      getStaleCache(PROVIDER_BOUNDS_CACHE_KEY, PROVIDER_BOUNDS_CACHE_OPTIONS),
+      error
+    );
   }
+
+  const data = v.validateRecords(
+    payload,
+    PROVIDER_DAILY_SWAP_BOUNDS_SCHEMA,
+    'provider-daily-swap-bounds'
+  );
+  return reportHealth(
+    PROVIDER_BOUNDS_SOURCE,
+    'fresh',
+    setCache(PROVIDER_BOUNDS_CACHE_KEY, data, PROVIDER_BOUNDS_CACHE_OPTIONS)
+  );
+}
+
+/**
+ * Provider daily swap bounds, fetched once and shared by every page in the build
+ */
+export function fetchProviderDailyBounds(): Promise<TimestampedData<
+  ProviderDailySwapBounds[]
+> | null> {
+  return memoize(PROVIDER_BOUNDS_CACHE_KEY, loadProviderDailyBounds);
 }
 
 /**
@@ -356,7 +497,7 @@ export async function getProviderById(
 ): Promise<ProviderQuoteStats | null> {
   const providers = await fetchProviderStats();
   if (!providers) return null;
-  return providers.find(p => p.peer_id === peerId) || null;
+  return providers.data.find(p => p.peer_id === peerId) || null;
 }
 
 /**
@@ -368,7 +509,7 @@ export async function getProviderHistoricalBounds(
 ): Promise<ProviderDailySwapBounds[] | null> {
   const bounds = await fetchProviderDailyBounds();
   if (!bounds) return null;
-  return bounds
+  return bounds.data
     .filter(b => b.peer_id === peerId)
     .sort((a, b) => new Date(a.day).getTime() - new Date(b.day).getTime());
 }
@@ -392,149 +533,107 @@ export function formatDaysAgo(days: number | null | undefined): string {
   return `${days} days ago`;
 }
 
-/**
- * Generate historical chart for a provider
- */
-export async function generateProviderChart(peerId: string): Promise<string> {
-  const historicalData = await getProviderHistoricalBounds(peerId);
-
-  if (!historicalData || historicalData.length === 0) {
-    return `<svg viewBox="0 0 800 200" preserveAspectRatio="xMidYMid meet" style="width:100%; height:auto; display:block;">
-      <text x="400" y="100" text-anchor="middle" fill="#666">No historical data available</text>
-    </svg>`;
-  }
-
-  const chartData = historicalData.map(d => ({
+function toProviderChartData(
+  historicalData: ProviderDailySwapBounds[]
+): TimePoint[] {
+  return historicalData.map(d => ({
     date: d.day,
-    maxSwap: d.daily_max_max_swap_amount / SATOSHIS_PER_BTC,
+    value: d.daily_max_max_swap_amount / SATOSHIS_PER_BTC,
   }));
+}
 
-  const spec: vl.TopLevelSpec = {
-    $schema: 'https://vega.github.io/schema/vega-lite/v5.json',
-    width: 750,
-    height: 400,
-    background: 'transparent',
-    padding: { left: 0, right: 0, top: 0, bottom: 0 },
-    data: { values: chartData },
-    layer: [
+function providerChartOptions(
+  historicalData: ProviderDailySwapBounds[]
+): TimeSeriesChartOptions {
+  return {
+    name: 'provider',
+    unit: 'BTC',
+    axisFormat: '.3f',
+    emptyMessage: 'No historical data available',
+    series: [
       {
-        mark: {
-          type: 'area',
-          color: '#ff6b35',
-          opacity: 0.15,
-          line: false,
-        },
-        encoding: {
-          x: {
-            title: null,
-            field: 'date',
-            type: 'temporal',
-            axis: {
-              format: '%b %d',
-              labelAngle: 0,
-              labelFontSize: 14,
-              labelColor: '#666',
-              tickColor: 'transparent',
-              domainColor: 'transparent',
-              grid: false,
-            },
-          },
-          y: {
-            title: null,
-            field: 'maxSwap',
-            type: 'quantitative',
-            axis: {
-              labelFontSize: 14,
-              labelColor: '#666',
-              tickColor: 'transparent',
-              domainColor: 'transparent',
-              grid: false,
-              labelExpr: 'format(datum.value, ".3f") + " BTC"',
-            },
-          },
-        },
-      },
-      {
-        mark: {
-          type: 'line',
-          color: '#ff6b35',
-          strokeWidth: 2,
-          strokeCap: 'round',
-          strokeJoin: 'round',
-        },
-        encoding: {
-          x: { field: 'date', type: 'temporal' },
-          y: { field: 'maxSwap', type: 'quantitative' },
-        },
+        label: 'Maximum swap',
+        color: '#ff6b35',
+        fill: true,
+        points: toProviderChartData(historicalData),
       },
     ],
   };
+}
 
-  try {
-    const vegaSpec = vl.compile(spec).spec;
-    const view = new vega.View(vega.parse(vegaSpec), { renderer: 'none' });
-    const svg = await view.toSVG();
-    // Remove fixed width/height and make responsive
-    return svg
-      .replace(/width="[^"]*"/, 'width="100%"')
-      .replace(/height="[^"]*"/, 'height="auto"')
-      .replace('<svg', '<svg style="display: block;"');
-  } catch (error) {
-    console.error('Failed to generate provider chart:', error);
-    return `<svg viewBox="0 0 800 200" preserveAspectRatio="xMidYMid meet" style="width:100%; height:auto; display:block;">
-      <text x="400" y="100" text-anchor="middle" fill="#666">Chart generation failed</text>
-    </svg>`;
-  }
+/**
+ * Get the historical maximum swap amount chart of a provider
+ */
+export async function getProviderChartData(
+  peerId: string
+): Promise<ProviderChartData> {
+  const historicalData = await getProviderHistoricalBounds(peerId);
+  const options = providerChartOptions(historicalData ?? []);
+
+  return {
+    chartSvg: await renderTimeSeriesChart(options),
+    chart: toInteractiveChart(options),
+  };
 }
 
 /**
  * Fetch daily price stats from API with caching
+ * Falls back to stale cached data if the API is unavailable
  */
-async function fetchDailyPriceStats(): Promise<DailyPriceStats[] | null> {
-  const cached = getCache<DailyPriceStats[]>(PRICE_STATS_CACHE_KEY);
+async function loadDailyPriceStats(): Promise<TimestampedData<
+  DailyPriceStats[]
+> | null> {
+  const cached = getCacheEntry<DailyPriceStats[]>(
+    PRICE_STATS_CACHE_KEY,
+    PRICE_STATS_CACHE_OPTIONS
+  );
   if (cached) {
-    return cached;
+    return reportHealth(PRICE_STATS_SOURCE, 'cached', cached);
   }
 
+  let payload: unknown;
   try {
     console.log('Fetching daily price stats from API...');
     const response = await fetchWithRetry(DAILY_PRICE_STATS_API_URL);
-
-    if (!response.ok) {
-      console.warn(
-        `Daily price stats API responded with status: ${response.status}`
-      );
-      return null;
-    }
-
-    const data: DailyPriceStats[] = await response.json();
-    setCache(PRICE_STATS_CACHE_KEY, data);
-    return data;
+    payload = await response.json();
   } catch (error) {
-    console.warn('Failed to fetch daily price stats:', error);
-    return null;
+    console.warn(
+      'Failed to fetch daily price stats:',
+      describeFetchError(error)
+    );
+    return reportFallback(
+      PRICE_STATS_SOURCE,
+      getStaleCache(PRICE_STATS_CACHE_KEY, PRICE_STATS_CACHE_OPTIONS),
+      error
+    );
   }
+
+  const data = v.validateRecords(
+    payload,
+    DAILY_PRICE_STATS_SCHEMA,
+    'daily-price-stats'
+  );
+  return reportHealth(
+    PRICE_STATS_SOURCE,
+    'fresh',
+    setCache(PRICE_STATS_CACHE_KEY, data, PRICE_STATS_CACHE_OPTIONS)
+  );
 }
 
 /**
- * Generate SVG chart for best daily price (lowest price = best rate for BTC→XMR)
+ * Daily price statistics, the data behind the price chart
  */
-async function generateBestPriceChart(
-  priceData: DailyPriceStats[]
-): Promise<string> {
-  if (priceData.length === 0) {
-    return FALLBACK_SVG;
-  }
-
-  // Filter out entries with avg_price of 0 (invalid data)
-  const validData = priceData.filter(d => d.avg_price > 0);
-
-  if (validData.length === 0) {
-    return FALLBACK_SVG;
-  }
+export function fetchDailyPriceStats(): Promise<TimestampedData<
+  DailyPriceStats[]
+> | null> {
+  return memoize(PRICE_STATS_CACHE_KEY, loadDailyPriceStats);
+}
 
-  // Transform data for Vega-Lite
-  const chartData = validData
+// Chart rows in chronological order (oldest to newest), in BTC per XMR,
+// without entries with an avg_price of 0 (invalid data)
+function toPriceChartData(priceData: DailyPriceStats[]): PriceDay[] {
+  return priceData
+    .filter(d => d.avg_price > 0)
     .map(d => {
       const year = d.date[0];
       const dayOfYear = d.date[1];
@@ -542,100 +641,85 @@ async function generateBestPriceChart(
 
       return {
         date: date.toISOString().split('T')[0],
-        avgPrice: d.avg_price / SATOSHIS_PER_BTC, // Convert to BTC per XMR
+        avg: d.avg_price / SATOSHIS_PER_BTC,
+        lowest: d.lowest_price / SATOSHIS_PER_BTC,
+        highest: d.highest_price / SATOSHIS_PER_BTC,
       };
     })
-    .reverse(); // Show chronological order (oldest to newest)
-
-  const spec: vl.TopLevelSpec = {
-    $schema: 'https://vega.github.io/schema/vega-lite/v5.json',
-    width: 750,
-    height: 400,
-    background: 'transparent',
-    padding: { left: 0, right: 0, top: 0, bottom: 0 },
-    data: { values: chartData },
-    layer: [
-      // Area fill
+    .reverse();
+}
+
+// Days with a usable range, a lowest or highest price of 0 is invalid data
+function withPriceRange(days: PriceDay[]): PriceDay[] {
+  return days.filter(d => d.lowest > 0 && d.highest >= d.lowest);
+}
+
+function bestPriceChartOptions(days: PriceDay[]): TimeSeriesChartOptions {
+  return {
+    name: 'best price',
+    unit: 'BTC',
+    axisFormat: '.6f',
+    zero: false, // the spread is a few percent of the price
+    series: [
       {
-        mark: {
-          type: 'area',
-          color: '#22c55e',
-          opacity: 0.15,
-          line: false,
-        },
-        encoding: {
-          x: {
-            title: null,
-            field: 'date',
-            type: 'temporal',
-            axis: {
-              format: '%b %d',
-              labelAngle: 0,
-              labelFontSize: 14,
-              labelColor: '#666',
-              tickColor: 'transparent',
-              domainColor: 'transparent',
-              grid: false,
-            },
-          },
-          y: {
-            title: null,
-            field: 'avgPrice',
-            type: 'quantitative',
-            axis: {
-              labelFontSize: 14,
-              labelColor: '#666',
-              tickColor: 'transparent',
-              domainColor: 'transparent',
-              grid: false,
-              labelExpr: 'format(datum.value, ".6f") + " BTC"',
-            },
-          },
-        },
+        label: 'Average price',
+        color: '#22c55e',
+        points: days.map(d => ({ date: d.date, value: d.avg })),
       },
-      // Line
+    ],
+    bands: [
       {
-        mark: {
-          type: 'line',
-          color: '#22c55e',
-          strokeWidth: 2,
-          strokeCap: 'round',
-          strokeJoin: 'round',
-        },
-        encoding: {
-          x: { field: 'date', type: 'temporal' },
-          y: { field: 'avgPrice', type: 'quantitative' },
-        },
+        label: 'Lowest to highest price',
+        color: '#22c55e',
+        opacity: 0.25,
+        points: withPriceRange(days).map(d => ({
+          date: d.date,
+          low: d.lowest,
+          high: d.highest,
+        })),
       },
     ],
   };
+}
 
-  try {
-    const vegaSpec = vl.compile(spec).spec;
-    const view = new vega.View(vega.parse(vegaSpec), { renderer: 'none' });
-    const svg = await view.toSVG();
-    // Remove fixed width/height and make responsive using viewBox
-    return svg
-      .replace(/\s*width="[^"]*"/, '')
-      .replace(/\s*height="[^"]*"/, '')
-      .replace(
-        '<svg',
-        '<svg style="width: 100%; height: auto; display: block;"'
-      );
-  } catch (error) {
-    console.error('Failed to generate best price chart:', error);
-    return FALLBACK_SVG;
-  }
+function priceSpreadChartOptions(days: PriceDay[]): TimeSeriesChartOptions {
+  return {
+    name: 'price spread',
+    unit: '%',
+    axisFormat: '.1f',
+    valueFormat: '.2f',
+    height: 200,
+    series: [
+      {
+        label: 'Spread',
+        color: '#f7a41d',
+        fill: true,
+        points: withPriceRange(days).map(d => ({
+          date: d.date,
+          value: ((d.highest - d.lowest) / d.avg) * 100,
+        })),
+      },
+    ],
+  };
 }
 
 /**
- * Get best daily price chart SVG
+ * Get the daily price chart SVGs: the average price within the range of
+ * the day (the lowest price is the best rate for BTC→XMR), and the width
+ * of that range relative to the average
  */
 export async function getBestPriceData(): Promise<PriceChartData> {
   const priceData = await fetchDailyPriceStats();
-  const chartSvg = priceData
-    ? await generateBestPriceChart(priceData)
-    : FALLBACK_SVG;
-
-  return { chartSvg };
+  const days = toPriceChartData(priceData?.data ?? []);
+  const options = bestPriceChartOptions(days);
+  const spreadOptions = priceSpreadChartOptions(days);
+
+  return {
+    chartSvg: await renderTimeSeriesChart(options),
+    chart: toInteractiveChart(options),
+    spreadChartSvg: await renderTimeSeriesChart(spreadOptions),
+    spreadChart: toInteractiveChart(spreadOptions),
+    timestamp: priceData?.timestamp ?? null,
+    stale: priceData?.stale ?? false,
+  };
 }
@@ -0,0 +1,189 @@
+import {
+  parseAssetName,
+  type AssetArch,
+  type AssetFormat,
+  type AssetOs,
+} from './assets';
+import {
+  fetchGitHubRelease,
+  fetchLatestRelease,
+  getVersion,
+  type DownloadAsset,
+  type GitHubAsset,
+  type GitHubRelease,
+} from './downloads';
+import { describeFetchError, fetchWithRetry } from './fetch';
+import { memoize } from './memo';
+import type { SignatureStatus } from './signatures';
+
+// Machine-readable manifests of the latest release, generated at build time:
+//   /latest.json           Tauri updater format, for the wallet's auto-updater
+//   /releases/latest.json  every downloadable asset with typed metadata
+
+/**
+ * Targets as named by the Tauri updater, `<os>-<arch>`
+ */
+export type UpdaterTarget =
+  | 'darwin-aarch64'
+  | 'darwin-x86_64'
+  | 'linux-aarch64'
+  | 'linux-x86_64'
+  | 'windows-aarch64'
+  | 'windows-x86_64';
+
+export interface UpdaterPlatform {
+  signature: string; // contents of the `.sig` file, not its URL
+  url: string;
+}
+
+export interface UpdaterManifest {
+  version: string;
+  notes: string;
+  pub_date: string;
+  platforms: Partial<Record<UpdaterTarget, UpdaterPlatform>>;
+}
+
+export interface ManifestAsset {
+  fileName: string;
+  url: string;
+  signatureUrl: string | null;
+  os: AssetOs | null;
+  arch: AssetArch | null;
+  format: AssetFormat | null;
+  tool: string | null; // null for the GUI
+  size: number;
+  sha256: string | null;
+  signatureStatus: SignatureStatus | null;
+}
+
+export interface ReleaseManifest {
+  version: string;
+  releaseDate: string;
+  prerelease: boolean;
+  url: string;
+  assets: ManifestAsset[];
+}
+
+/**
+ * The updater target of a Tauri update bundle, or null if the asset is not
+ * one. The updater installs the `.app.tar.gz` on macOS, the AppImage on
+ * Linux and the NSIS or MSI installer on Windows.
+ */
+function getUpdaterTarget(assetName: string): UpdaterTarget | null {
+  const { channel, format, arch } = parseAssetName(assetName).asset;
+  if (channel !== 'gui') return null;
+
+  let os: 'darwin' | 'linux' | 'windows';
+  if (format === 'app-bundle') os = 'darwin';
+  else if (format === 'appimage') os = 'linux';
+  // Only the NSIS installer, a plain .exe cannot update itself
+  else if (format === 'msi' || assetName.toLowerCase().endsWith('-setup.exe'))
+    os = 'windows';
+  else return null;
+
+  if (arch === 'arm64') return `${os}-aarch64`;
+  if (arch === 'x86_64') return `${os}-x86_64`;
+  return null;
+}
+
+function fetchUpdaterSignature(signature: GitHubAsset): Promise<string> {
+  return memoize(
+    `updater-signature-${signature.browser_download_url}`,
+    async () => {
+      const response = await fetchWithRetry(signature.browser_download_url);
+      return (await response.text()).trim();
+    }
+  );
+}
+
+/**
+ * Tauri updater manifest for `release`. Bundles without a `.sig` cannot be
+ * installed by the updater and are left out, as are bundles whose
+ * signature could not be downloaded.
+ */
+export async function buildUpdaterManifest(
+  release: GitHubRelease
+): Promise<UpdaterManifest> {
+  const assetsByName = new Map(release.assets.map(a => [a.name, a]));
+  const platforms: UpdaterManifest['platforms'] = {};
+
+  for (const asset of release.assets) {
+    const target = getUpdaterTarget(asset.name);
+    const signature = assetsByName.get(`${asset.name}.sig`);
+    if (!target || !signature) continue;
+
+    if (platforms[target]) {
+      console.warn(
+        `Updater manifest: ${asset.name} is a second bundle for ${target}, keeping ${platforms[target].url}`
+      );
+      continue;
+    }
+
+    try {
+      platforms[target] = {
+        signature: await fetchUpdaterSignature(signature),
+        url: asset.browser_download_url,
+      };
+    } catch (error) {
+      console.warn(
+        `Updater manifest: leaving out ${target}, failed to fetch ${signature.name}:`,
+        describeFetchError(error)
+      );
+    }
+  }
+
+  if (Object.keys(platforms).length === 0) {
+    console.warn(
+      `Updater manifest: release ${release.tag_name} has no signed update bundles`
+    );
+  }
+
+  return {
+    version: getVersion(release),
+    notes: release.body ?? '',
+    pub_date: release.published_at,
+    platforms,
+  };
+}
+
+export async function getUpdaterManifest(): Promise<UpdaterManifest> {
+  const { data: release } = await fetchGitHubRelease();
+  return buildUpdaterManifest(release);
+}
+
+function toManifestAsset(
+  asset: DownloadAsset & { fileName: string; sizeBytes: number }
+): ManifestAsset {
+  return {
+    fileName: asset.fileName,
+    url: asset.downloadUrl,
+    signatureUrl: asset.signatureUrl || null,
+    os: asset.os,
+    arch: asset.arch,
+    format: asset.format,
+    tool: asset.tool,
+    size: asset.sizeBytes,
+    sha256: asset.sha256,
+    signatureStatus: asset.signatureStatus,
+  };
+}
+
+/**
+ * Every downloadable file of the latest release. Install instructions
+ * (Flatpak, AUR) are not files and are left out.
+ */
+export async function getReleaseManifest(): Promise<ReleaseManifest> {
+  const release = await fetchLatestRelease();
+  const files = release.assets.filter(
+    (asset): asset is DownloadAsset & { fileName: string; sizeBytes: number } =>
+      asset.fileName !== null && asset.sizeBytes !== null
+  );
+
+  return {
+    version: release.version,
+    releaseDate: release.releaseDate,
+    prerelease: release.prerelease,
+    url: release.htmlUrl,
+    assets: files.map(toManifestAsset),
+  };
+}
@@ -0,0 +1,41 @@
+// Promise sharing for concurrent page builds. All pages are rendered in the
+// same process, so module-level maps are shared by the whole build.
+
+const memoized = new Map<string, Promise<unknown>>();
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Run `fn` once per key for the whole build; every caller gets the same result.
+ * Rejections are not memoized, so a later caller can try again.
+ */
+export function memoize<T>(key: string, fn: () => Promise<T>): Promise<T> {
+  const existing = memoized.get(key);
+  if (existing) {
+    return existing as Promise<T>;
+  }
+
+  const promise = fn().catch(error => {
+    memoized.delete(key);
+    throw error;
+  });
+  memoized.set(key, promise);
+  return promise;
+}
+
+/**
+ * Share a pending promise between identical concurrent calls.
+ * Unlike `memoize`, the key is released as soon as the promise settles.
+ */
+export function shareInFlight<T>(
+  key: string,
+  fn: () => Promise<T>
+): Promise<T> {
+  const existing = inFlight.get(key);
+  if (existing) {
+    return existing as Promise<T>;
+  }
+
+  const promise = fn().finally(() => inFlight.delete(key));
+  inFlight.set(key, promise);
+  return promise;
+}
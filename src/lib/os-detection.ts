@@ -1,14 +1,59 @@
 // Client-side OS and architecture detection utilities
 
-export type OS = 'windows' | 'macos' | 'linux' | 'unknown';
-export type Arch = 'arm64' | 'x86_64';
+export type OS = 'windows' | 'macos' | 'linux' | 'android' | 'ios' | 'chromeos' | 'unknown';
+export type DesktopOS = 'windows' | 'macos' | 'linux';
+export type Arch = 'arm64' | 'x86_64' | 'armv7' | 'unknown';
+export type FormFactor = 'desktop' | 'mobile';
+
+/**
+ * - high: reported by the browser through User-Agent Client Hints
+ * - medium: inferred from the user agent string or the GPU
+ * - low: guessed, at least the architecture is unknown
+ */
+export type Confidence = 'high' | 'medium' | 'low';
+
+interface EnvironmentDetails {
+  arch: Arch;
+  formFactor: FormFactor;
+  confidence: Confidence;
+}
+
+export type DetectedEnvironment =
+  | (EnvironmentDetails & {
+      supported: true;
+      os: DesktopOS;
+      advice: string | null; // set when the result may be wrong
+    })
+  | (EnvironmentDetails & {
+      supported: false;
+      os: OS;
+      advice: string; // what to do instead
+    });
+
+// Subset of https://wicg.github.io/ua-client-hints/, not in lib.dom yet
+interface UserAgentData {
+  platform: string;
+  mobile: boolean;
+  getHighEntropyValues?(hints: string[]): Promise<{ architecture?: string; bitness?: string }>;
+}
+
+function getUserAgentData(): UserAgentData | undefined {
+  return (navigator as Navigator & { userAgentData?: UserAgentData }).userAgentData;
+}
 
 export function detectOS(): OS {
   const ua = navigator.userAgent.toLowerCase();
-  const platform = (navigator as any).userAgentData?.platform?.toLowerCase() || navigator.platform?.toLowerCase() || '';
-  
+  const platform = getUserAgentData()?.platform?.toLowerCase() || navigator.platform?.toLowerCase() || '';
+
+  // Before the desktop systems, their user agents contain "linux" and "mac os x"
+  if (platform.includes('android') || ua.includes('android')) return 'android';
+  if (/iphone|ipad|ipod/.test(platform) || /iphone|ipad|ipod/.test(ua)) return 'ios';
+  if (platform.includes('chrome os') || platform.includes('chromeos') || /\bcros\b/.test(ua)) return 'chromeos';
   if (platform.includes('win') || ua.includes('windows')) return 'windows';
-  if (platform.includes('mac') || ua.includes('mac')) return 'macos';
+  if (platform.includes('mac') || ua.includes('mac')) {
+    // iPadOS requests the desktop site and claims to be a Mac
+    return navigator.maxTouchPoints > 1 ? 'ios' : 'macos';
+  }
   if (platform.includes('linux') || ua.includes('linux')) return 'linux';
   return 'unknown';
 }
@@ -18,10 +63,10 @@ function detectAppleSiliconViaGPU(): boolean {
     const canvas = document.createElement('canvas');
     const gl = canvas.getContext('webgl') || canvas.getContext('experimental-webgl');
     if (!gl) return false;
-    
+
     const debugInfo = (gl as WebGLRenderingContext).getExtension('WEBGL_debug_renderer_info');
     if (!debugInfo) return false;
-    
+
     const renderer = (gl as WebGLRenderingContext).getParameter(debugInfo.UNMASKED_RENDERER_WEBGL);
     // Apple Silicon GPUs are named "Apple M1", "Apple M2", "Apple M3", "Apple M4", etc.
     return /Apple M\d/i.test(renderer);
@@ -30,28 +75,84 @@ function detectAppleSiliconViaGPU(): boolean {
   }
 }
 
+/**
+ * Architecture from the user agent string or the GPU, 'unknown' if neither
+ * tells. Desktop browsers on x86_64 do not always say so. Client hints
+ * only report the architecture asynchronously, see detectArchViaClientHints.
+ */
 export function detectArch(): Arch {
-  // Check userAgentData first (modern browsers)
-  if ((navigator as any).userAgentData?.architecture === 'arm') {
-    return 'arm64';
-  }
-  
   // Check user agent string
   const ua = navigator.userAgent;
   if (/arm64|aarch64/i.test(ua)) {
     return 'arm64';
   }
-  
+  if (/armv7/i.test(ua)) {
+    return 'armv7';
+  }
+  if (/x86_64|x86-64|x64|amd64|win64|wow64/i.test(ua)) {
+    return 'x86_64';
+  }
+
   // For macOS, use WebGL GPU detection as fallback (most reliable for Apple Silicon)
   const os = detectOS();
   if (os === 'macos' && detectAppleSiliconViaGPU()) {
     return 'arm64';
   }
-  
-  return 'x86_64';
+
+  return 'unknown';
 }
 
-export function isSiliconMac(): boolean {
-  return detectOS() === 'macos' && detectArch() === 'arm64';
+/**
+ * Architecture through User-Agent Client Hints (Chromium-based browsers),
+ * null where they are not available
+ */
+async function detectArchViaClientHints(): Promise<Arch | null> {
+  const userAgentData = getUserAgentData();
+  if (!userAgentData?.getHighEntropyValues) return null;
+
+  try {
+    const { architecture, bitness } = await userAgentData.getHighEntropyValues(['architecture', 'bitness']);
+    if (architecture === 'arm') return bitness === '32' ? 'armv7' : 'arm64';
+    if (architecture === 'x86' && bitness !== '32') return 'x86_64';
+    return null;
+  } catch {
+    return null;
+  }
 }
 
+const UNSUPPORTED_ADVICE = {
+  mobile: 'eigenwallet does not run on phones and tablets yet. Open this page on a Windows, macOS or Linux computer to download it.',
+  chromeos: 'ChromeOS is not supported directly. If you have turned on the Linux development environment, pick the Linux download for your processor.',
+  unknown: 'We could not recognize your operating system. Pick the download for your system from the list.',
+};
+
+/**
+ * Everything the download recommendation needs to know about the visitor.
+ * Mobile and unrecognized systems come back as unsupported with advice,
+ * not as a guessed desktop.
+ */
+export async function detectEnvironment(): Promise<DetectedEnvironment> {
+  const os = detectOS();
+  const mobile = getUserAgentData()?.mobile ?? (os === 'android' || os === 'ios');
+  const formFactor: FormFactor = mobile ? 'mobile' : 'desktop';
+
+  const hintedArch = await detectArchViaClientHints();
+  const arch = hintedArch ?? detectArch();
+  const confidence: Confidence =
+    os === 'unknown' || arch === 'unknown' ? 'low' : hintedArch ? 'high' : 'medium';
+
+  if ((os === 'windows' || os === 'macos' || os === 'linux') && !mobile) {
+    let advice: string | null = null;
+    if (arch === 'unknown') {
+      advice = os === 'macos'
+        ? 'We could not tell whether your Mac has an Apple Silicon or Intel processor. The Intel build runs on both.'
+        : 'We could not detect your processor architecture. Check that the download matches it.';
+    }
+    return { supported: true, os, arch, formFactor, confidence, advice };
+  }
+
+  const advice = mobile || os === 'android' || os === 'ios'
+    ? UNSUPPORTED_ADVICE.mobile
+    : os === 'chromeos' ? UNSUPPORTED_ADVICE.chromeos : UNSUPPORTED_ADVICE.unknown;
+  return { supported: false, os, arch, formFactor, confidence, advice };
+}
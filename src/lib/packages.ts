@@ -0,0 +1,191 @@
+import type { AssetArch, AssetOs } from './assets';
+import {
+  getCacheEntry,
+  getStaleCache,
+  setCache,
+  type CacheOptions,
+} from './cache';
+import { GITHUB_REPO } from './config';
+import { describeFetchError, fetchWithRetry } from './fetch';
+import { reportFallback, reportHealth, type DataSource } from './health';
+import { memoize } from './memo';
+import { compareVersions } from './versions';
+
+// Distribution channels of the GUI besides the GitHub release. Each one is
+// listed on the download page with the version it currently ships, so users
+// can tell which channel lags behind the latest release. To add a channel,
+// add an entry to PACKAGE_CHANNELS.
+
+export type PackageManager = 'AUR' | 'Flatpak';
+
+export interface PackageMaintainer {
+  name: string;
+  url: string;
+}
+
+export interface PackageChannel {
+  id: string; // cache key and data source id, e.g. "aur-eigenwallet-bin"
+  manager: PackageManager;
+  name: string; // package name or application id
+  packageUrl: string;
+  installUrl: string | null; // listed in the GUI download table if set
+  maintainer: PackageMaintainer | null; // null for channels we publish ourselves
+  os: AssetOs;
+  architectures: AssetArch[];
+  versionUrl: string;
+  // The shipped version in GitHub tag format, null if `body` has none
+  parseVersion: (body: string) => string | null;
+}
+
+/**
+ * - up-to-date: ships the latest release (or something newer)
+ * - behind: `releasesBehind` stable releases are missing
+ * - unknown: the channel version could not be fetched
+ */
+export type Freshness =
+  | { status: 'up-to-date' }
+  | { status: 'behind'; releasesBehind: number }
+  | { status: 'unknown' };
+
+// Bump `version` whenever the shape of the cached data changes
+const PACKAGE_CACHE_OPTIONS: CacheOptions = {
+  ttlMs: 60 * 60 * 1000,
+  version: 2,
+};
+
+const AUR_MAINTAINER: PackageMaintainer = {
+  name: 'Kainoa Kanter (That1Calculator)',
+  url: 'https://aur.archlinux.org/account/That1Calculator',
+};
+
+// The Flatpak repository is built from this manifest, which points at the
+// .deb of the release it packages
+const FLATPAK_MANIFEST_URL = `https://raw.githubusercontent.com/${GITHUB_REPO}/refs/heads/master/flatpak/org.eigenwallet.app.json`;
+
+// `listed`: also offered as an install method in the GUI download table
+function aurPackage(
+  name: string,
+  { listed = false }: { listed?: boolean } = {}
+): PackageChannel {
+  const packageUrl = `https://aur.archlinux.org/packages/${name}`;
+  return {
+    id: `aur-${name}`,
+    manager: 'AUR',
+    name,
+    packageUrl,
+    installUrl: listed ? packageUrl : null,
+    maintainer: AUR_MAINTAINER,
+    os: 'linux',
+    architectures: ['x86_64'],
+    versionUrl: `https://aur.archlinux.org/rpc/v5/info?arg[]=${name}`,
+    parseVersion: parseAurVersion,
+  };
+}
+
+/**
+ * Third-party distribution channels, in display order
+ */
+export const PACKAGE_CHANNELS: PackageChannel[] = [
+  {
+    id: 'flatpak-org.eigenwallet.app',
+    manager: 'Flatpak',
+    name: 'org.eigenwallet.app',
+    packageUrl: '/flatpak',
+    installUrl: '/flatpak',
+    maintainer: null,
+    os: 'linux',
+    architectures: ['x86_64'],
+    versionUrl: FLATPAK_MANIFEST_URL,
+    parseVersion: parseFlatpakManifestVersion,
+  },
+  aurPackage('eigenwallet-bin', { listed: true }),
+  aurPackage('eigenwallet-developertools-bin'),
+];
+
+export function getPackageSource(channel: PackageChannel): DataSource {
+  return { id: channel.id, label: `${channel.manager} ${channel.name}` };
+}
+
+/**
+ * Data sources behind the package manager table
+ */
+export const PACKAGE_SOURCES: DataSource[] =
+  PACKAGE_CHANNELS.map(getPackageSource);
+
+/**
+ * AUR versions are "[epoch:]pkgver-pkgrel", and pkgver cannot contain
+ * hyphens, so pre-releases are packaged as e.g. "3.4.0_rc.1"
+ */
+function parseAurVersion(body: string): string | null {
+  const version = JSON.parse(body).results?.[0]?.Version;
+  if (typeof version !== 'string') {
+    return null;
+  }
+  return version
+    .replace(/^\d+:/, '')
+    .replace(/-[^-]*$/, '')
+    .replace(/_/g, '-');
+}
+
+function parseFlatpakManifestVersion(body: string): string | null {
+  const match = body.match(/\/releases\/download\/v?([^/"]+)\//);
+  return match ? match[1] : null;
+}
+
+/**
+ * The version `channel` currently ships, or null if it could not be
+ * determined and nothing is cached
+ */
+export function fetchPackageVersion(
+  channel: PackageChannel
+): Promise<string | null> {
+  return memoize(`package-${channel.id}`, () => loadPackageVersion(channel));
+}
+
+async function loadPackageVersion(
+  channel: PackageChannel
+): Promise<string | null> {
+  const source = getPackageSource(channel);
+  const cached = getCacheEntry<string>(channel.id, PACKAGE_CACHE_OPTIONS);
+  if (cached) return reportHealth(source, 'cached', cached).data;
+
+  let version: string | null;
+  try {
+    const response = await fetchWithRetry(channel.versionUrl);
+    version = channel.parseVersion(await response.text());
+    if (!version) {
+      throw new Error(`no version published for ${channel.name}`);
+    }
+  } catch (error) {
+    console.warn(
+      `Failed to fetch ${channel.manager} version of ${channel.name}:`,
+      describeFetchError(error)
+    );
+    const stale = getStaleCache<string>(channel.id, PACKAGE_CACHE_OPTIONS);
+    return reportFallback(source, stale, error)?.data ?? null;
+  }
+
+  return reportHealth(
+    source,
+    'fresh',
+    setCache(channel.id, version, PACKAGE_CACHE_OPTIONS)
+  ).data;
+}
+
+/**
+ * How far `version` lags behind, counting the stable releases newer than it
+ */
+export function getFreshness(
+  version: string | null,
+  stableVersions: string[]
+): Freshness {
+  if (version === null) {
+    return { status: 'unknown' };
+  }
+  const newer = new Set(
+    stableVersions.filter(stable => compareVersions(stable, version) > 0)
+  );
+  return newer.size === 0
+    ? { status: 'up-to-date' }
+    : { status: 'behind', releasesBehind: newer.size };
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import type { AssetArch, AssetFormat, AssetOs } from './assets';
+import type { PackageManager } from './packages';
+import {
+  recommendDownload,
+  type DownloadOption,
+  type Environment,
+} from './recommend';
+
+function option(
+  os: AssetOs,
+  arch: AssetArch,
+  kind: AssetFormat | PackageManager
+): DownloadOption {
+  const packageManager =
+    kind === 'Flatpak' || kind === 'AUR' ? (kind as PackageManager) : null;
+  return {
+    id: `${os}-${arch}-${kind}`,
+    label: kind,
+    url: `https://example.invalid/${os}-${arch}-${kind}`,
+    os,
+    arch,
+    format: packageManager ? null : (kind as AssetFormat),
+    packageManager,
+  };
+}
+
+// The GUI options of a typical release, in table order
+const OPTIONS: DownloadOption[] = [
+  option('windows', 'x86_64', 'msi'),
+  option('windows', 'x86_64', 'exe'),
+  option('macos', 'x86_64', 'app-bundle'),
+  option('macos', 'x86_64', 'dmg'),
+  option('macos', 'arm64', 'app-bundle'),
+  option('macos', 'arm64', 'dmg'),
+  option('linux', 'x86_64', 'deb'),
+  option('linux', 'x86_64', 'appimage'),
+  option('linux', 'arm64', 'appimage'),
+  option('linux', 'x86_64', 'AUR'),
+  option('linux', 'x86_64', 'Flatpak'),
+];
+
+interface Case {
+  name: string;
+  environment: Environment;
+  primary: string | null; // id of the primary option
+  reason?: string;
+  alternatives?: string[]; // ids, best first
+}
+
+const CASES: Case[] = [
+  {
+    name: 'Windows on x86_64 gets the installer',
+    environment: { os: 'windows', arch: 'x86_64' },
+    primary: 'windows-x86_64-exe',
+    reason: 'Installer for Windows',
+    alternatives: ['windows-x86_64-msi'],
+  },
+  {
+    name: 'Windows on ARM falls back to x64 under emulation',
+    environment: { os: 'windows', arch: 'arm64' },
+    primary: 'windows-x86_64-exe',
+    reason: 'Installer for Windows, runs under x64 emulation',
+    alternatives: ['windows-x86_64-msi'],
+  },
+  {
+    name: 'Apple Silicon gets native builds before Rosetta 2 ones',
+    environment: { os: 'macos', arch: 'arm64' },
+    primary: 'macos-arm64-dmg',
+    reason: 'Disk image, drag the app to Applications',
+    alternatives: [
+      'macos-arm64-app-bundle',
+      'macos-x86_64-dmg',
+      'macos-x86_64-app-bundle',
+    ],
+  },
+  {
+    name: 'a Mac of unknown architecture gets the Intel build, which runs on both',
+    environment: { os: 'macos', arch: 'unknown' },
+    primary: 'macos-x86_64-dmg',
+    reason:
+      'Disk image, drag the app to Applications, if your processor is x86_64',
+    alternatives: ['macos-x86_64-app-bundle'],
+  },
+  {
+    name: 'Linux prefers the Flatpak instructions over release files',
+    environment: { os: 'linux', arch: 'x86_64' },
+    primary: 'linux-x86_64-Flatpak',
+    reason: 'Sandboxed, updated through Flatpak',
+    alternatives: [
+      'linux-x86_64-appimage',
+      'linux-x86_64-deb',
+      'linux-x86_64-AUR',
+    ],
+  },
+  {
+    name: 'Linux on ARM only gets ARM builds, there is no emulation',
+    environment: { os: 'linux', arch: 'arm64' },
+    primary: 'linux-arm64-appimage',
+    alternatives: [],
+  },
+  {
+    name: 'an architecture without builds gets nothing',
+    environment: { os: 'linux', arch: 'armv7' },
+    primary: null,
+    alternatives: [],
+  },
+  {
+    name: 'an unsupported OS gets nothing',
+    environment: { os: 'unknown', arch: 'arm64' },
+    primary: null,
+    alternatives: [],
+  },
+];
+
+describe('recommendDownload', () => {
+  it.each(CASES)('$name', ({ environment, primary, reason, alternatives }) => {
+    const result = recommendDownload(environment, OPTIONS);
+
+    expect(result.primary?.option.id ?? null).toBe(primary);
+    if (reason !== undefined) {
+      expect(result.primary?.reason).toBe(reason);
+    }
+    if (alternatives !== undefined) {
+      expect(result.alternatives.map(a => a.option.id)).toEqual(alternatives);
+    }
+  });
+
+  it('does not depend on the order of the options', () => {
+    const environment: Environment = { os: 'linux', arch: 'x86_64' };
+    expect(recommendDownload(environment, [...OPTIONS].reverse())).toEqual(
+      recommendDownload(environment, OPTIONS)
+    );
+  });
+
+  it('ignores formats the OS does not list', () => {
+    const result = recommendDownload({ os: 'windows', arch: 'x86_64' }, [
+      option('windows', 'x86_64', 'deb'),
+    ]);
+    expect(result).toEqual({ primary: null, alternatives: [] });
+  });
+});
@@ -0,0 +1,113 @@
+import type { AssetArch, AssetFormat, AssetOs } from './assets';
+import type { PackageManager } from './packages';
+
+// Picks the download to offer a visitor. Used by the home page button and
+// the download tables, in the browser, against the options rendered into
+// the page at build time.
+
+/**
+ * One way to install the GUI, either a release file or a package manager
+ */
+export interface DownloadOption {
+  id: string; // matches `data-download-id` on the download table rows
+  label: string; // e.g. "DMG Installer" or "Flatpak"
+  url: string;
+  os: AssetOs;
+  arch: AssetArch;
+  format: AssetFormat | null; // null for package managers
+  packageManager: PackageManager | null;
+}
+
+export interface Environment {
+  os: AssetOs | 'unknown';
+  arch: AssetArch | 'unknown'; // x86_64 builds are assumed to fit
+}
+
+export interface Recommendation {
+  option: DownloadOption;
+  reason: string;
+}
+
+export interface RecommendationResult {
+  primary: Recommendation | null; // null if nothing runs on the environment
+  alternatives: Recommendation[]; // best first
+}
+
+type OptionKind = AssetFormat | PackageManager;
+
+// Per OS, most preferred first. Kinds not listed are never recommended.
+const PREFERENCES: Record<AssetOs, { kind: OptionKind; reason: string }[]> = {
+  windows: [
+    { kind: 'exe', reason: 'Installer for Windows' },
+    { kind: 'msi', reason: 'MSI package for managed installations' },
+  ],
+  macos: [
+    { kind: 'dmg', reason: 'Disk image, drag the app to Applications' },
+    { kind: 'app-bundle', reason: 'Plain app bundle without installer' },
+  ],
+  linux: [
+    { kind: 'Flatpak', reason: 'Sandboxed, updated through Flatpak' },
+    { kind: 'appimage', reason: 'Runs on most distributions as is' },
+    { kind: 'deb', reason: 'For Debian, Ubuntu and derivatives' },
+    { kind: 'rpm', reason: 'For Fedora, openSUSE and derivatives' },
+    { kind: 'AUR', reason: 'For Arch Linux, community maintained' },
+  ],
+};
+
+// x86_64 builds still run on ARM machines of these systems
+const EMULATION: Partial<Record<AssetOs, string>> = {
+  macos: 'runs under Rosetta 2',
+  windows: 'runs under x64 emulation',
+};
+
+function getKind(option: DownloadOption): OptionKind | null {
+  return option.packageManager ?? option.format;
+}
+
+/**
+ * Rank the options that run on `environment`: native builds before
+ * emulated ones, then by the OS's preferred formats
+ */
+export function recommendDownload(
+  environment: Environment,
+  options: DownloadOption[]
+): RecommendationResult {
+  if (environment.os === 'unknown') {
+    return { primary: null, alternatives: [] };
+  }
+  const preferences = PREFERENCES[environment.os];
+  const emulation = EMULATION[environment.os];
+  const arch = environment.arch === 'unknown' ? 'x86_64' : environment.arch;
+  const assumption =
+    environment.arch === 'unknown' ? ', if your processor is x86_64' : '';
+
+  const ranked = options
+    .filter(option => option.os === environment.os)
+    .flatMap(option => {
+      const preference = preferences.findIndex(p => p.kind === getKind(option));
+      if (preference === -1) return [];
+
+      const native = option.arch === arch;
+      const emulated =
+        !native &&
+        emulation !== undefined &&
+        arch === 'arm64' &&
+        option.arch === 'x86_64';
+      if (!native && !emulated) return [];
+
+      const { reason } = preferences[preference];
+      return [
+        {
+          rank: [native ? 0 : 1, preference],
+          option,
+          reason: emulated
+            ? `${reason}, ${emulation}`
+            : `${reason}${assumption}`,
+        },
+      ];
+    })
+    .sort((a, b) => a.rank[0] - b.rank[0] || a.rank[1] - b.rank[1])
+    .map(({ option, reason }) => ({ option, reason }));
+
+  return { primary: ranked[0] ?? null, alternatives: ranked.slice(1) };
+}
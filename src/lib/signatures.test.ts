@@ -0,0 +1,56 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { GitHubAsset } from './downloads';
+import { verifyReleaseSignatures } from './signatures';
+
+// Serve the signed fake assets under fixtures/github.com. Set before the
+// imports run, the build cache reads FIXTURES when it is loaded.
+vi.hoisted(() => {
+  process.env.FIXTURES = 'replay';
+  process.env.SIGNING_KEY_PATH = 'fixtures/test-signing-key.asc';
+  process.env.SIGNATURE_POLICY = 'warn';
+});
+
+function asset(name: string, tag = '3.3.0'): GitHubAsset {
+  return {
+    name,
+    size: 0,
+    browser_download_url: `https://github.com/eigenwallet/core/releases/download/${tag}/${name}`,
+    download_count: 0,
+    digest: null,
+    updated_at: '2025-11-20T14:05:53Z',
+  };
+}
+
+// Each case uses its own release, checks are memoized by asset name
+describe('verifyReleaseSignatures', () => {
+  it('verifies an asset signed with the pinned key', async () => {
+    const tar = asset('asb_3.3.0_Linux_x86_64.tar');
+    const checks = await verifyReleaseSignatures(
+      [tar],
+      [tar, asset(`${tar.name}.asc`)]
+    );
+    expect(checks.get(tar.name)).toEqual({ status: 'verified', reason: null });
+  });
+
+  it('rejects an asset that does not match its signature', async () => {
+    // The signature of the asset above, one byte of the asset changed.
+    // Renamed, the check of the original is memoized under its name.
+    const tar = {
+      ...asset('asb_3.3.0_Linux_x86_64.tar', 'tampered'),
+      name: 'tampered.tar',
+    };
+    const signature = {
+      ...asset('asb_3.3.0_Linux_x86_64.tar.asc', 'tampered'),
+      name: 'tampered.tar.asc',
+    };
+    const checks = await verifyReleaseSignatures([tar], [tar, signature]);
+    expect(checks.get(tar.name)?.status).toBe('unverified');
+    expect(checks.get(tar.name)?.reason).toMatch(/signed digest/i);
+  });
+
+  it('reports an asset without an .asc', async () => {
+    const zip = asset('asb_3.3.0_Windows_x86_64.zip');
+    const checks = await verifyReleaseSignatures([zip], [zip]);
+    expect(checks.get(zip.name)?.status).toBe('missing-signature');
+  });
+});
@@ -0,0 +1,241 @@
+import fs from 'fs';
+import * as openpgp from 'openpgp';
+import { getCache, setCache, type CacheOptions } from './cache';
+import { digestAssetStream } from './digests';
+import type { GitHubAsset } from './downloads';
+import { describeFetchError, fetchStream, fetchWithRetry } from './fetch';
+import { memoize } from './memo';
+
+// Build-time PGP verification of release assets against the pinned
+// eigenwallet signing key. Each asset is downloaded together with its
+// detached `.asc` signature and checked before it is offered for download.
+//
+//   SIGNING_KEY_PATH  armored public key to verify against
+//   SIGNATURE_POLICY  warn (default): flag unverified assets on the page
+//                     strict: fail the build instead, also when there
+//                     is no key at SIGNING_KEY_PATH
+
+/**
+ * - verified: the `.asc` signature is valid for the pinned key
+ * - unverified: the signature could not be checked or is invalid
+ * - missing-signature: the release has no `.asc` for this asset
+ */
+export type SignatureStatus = 'verified' | 'unverified' | 'missing-signature';
+
+export interface SignatureCheck {
+  status: SignatureStatus;
+  reason: string | null; // why the asset is not verified
+}
+
+const DEFAULT_SIGNING_KEY_PATH = 'keys/eigenwallet-signing-key.asc';
+
+// A re-uploaded asset is checked again, see isSameUpload
+const SIGNATURE_CACHE_OPTIONS: CacheOptions = {
+  ttlMs: 30 * 24 * 60 * 60 * 1000,
+  version: 2,
+};
+
+// Release artifacts are large, allow more time than for API requests
+const ASSET_DOWNLOAD_TIMEOUT_MS = 5 * 60 * 1000;
+
+interface CachedSignatureCheck extends SignatureCheck {
+  digest: string | null;
+  size: number;
+  updatedAt: string;
+}
+
+// Read at call time, this module may be loaded before dotenv
+function getSigningKeyPath(): string {
+  return process.env.SIGNING_KEY_PATH || DEFAULT_SIGNING_KEY_PATH;
+}
+
+function isStrict(): boolean {
+  const policy = process.env.SIGNATURE_POLICY || 'warn';
+  if (policy !== 'warn' && policy !== 'strict') {
+    throw new Error(`Invalid SIGNATURE_POLICY "${policy}", use warn or strict`);
+  }
+  return policy === 'strict';
+}
+
+/**
+ * The pinned signing key, or null if there is none at SIGNING_KEY_PATH
+ */
+function loadSigningKey(): Promise<openpgp.PublicKey | null> {
+  return memoize('signing-key', async () => {
+    const keyPath = getSigningKeyPath();
+    if (!fs.existsSync(keyPath)) {
+      if (isStrict()) {
+        throw new Error(
+          `No signing key at ${keyPath}, required by SIGNATURE_POLICY=strict`
+        );
+      }
+      console.warn(
+        `No signing key at ${keyPath}, release signatures are not verified`
+      );
+      return null;
+    }
+    return openpgp.readKey({
+      armoredKey: fs.readFileSync(keyPath, 'utf-8'),
+    });
+  });
+}
+
+function downloadAsset(asset: GitHubAsset): Promise<Response> {
+  return fetchStream(asset.browser_download_url, undefined, {
+    timeoutMs: ASSET_DOWNLOAD_TIMEOUT_MS,
+  });
+}
+
+async function downloadSignature(signature: GitHubAsset): Promise<string> {
+  const response = await fetchWithRetry(signature.browser_download_url);
+  return response.text();
+}
+
+async function readToEnd(stream: ReadableStream<Uint8Array>): Promise<void> {
+  const reader = stream.getReader();
+  while (!(await reader.read()).done) {
+    // openpgp hashes the data as it passes through
+  }
+}
+
+async function verifyAsset(
+  asset: GitHubAsset,
+  signature: GitHubAsset,
+  key: openpgp.PublicKey
+): Promise<SignatureCheck> {
+  const [response, armoredSignature] = await Promise.all([
+    downloadAsset(asset),
+    downloadSignature(signature),
+  ]);
+  if (!response.body) {
+    throw new Error('empty response body');
+  }
+
+  // Streamed, the artifact is never held in memory as a whole. Hashed on
+  // the way, so resolveAssetDigests does not download it a second time.
+  const [forDigest, forSignature] = response.body.tee();
+  const { data, signatures } = await openpgp.verify({
+    message: await openpgp.createMessage({ binary: forSignature }),
+    signature: await openpgp.readSignature({ armoredSignature }),
+    verificationKeys: key,
+    format: 'binary',
+  });
+  await Promise.all([digestAssetStream(asset, forDigest), readToEnd(data)]);
+  try {
+    await signatures[0].verified;
+    return { status: 'verified', reason: null };
+  } catch (error) {
+    return {
+      status: 'unverified',
+      reason: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Whether `cached` was checked against the asset as it is uploaded now.
+ * Compared by GitHub's digest, or by size and upload time for older
+ * releases without one.
+ */
+function isSameUpload(
+  cached: CachedSignatureCheck,
+  asset: GitHubAsset
+): boolean {
+  if (cached.digest !== null || asset.digest !== null) {
+    return cached.digest === asset.digest;
+  }
+  return cached.size === asset.size && cached.updatedAt === asset.updated_at;
+}
+
+function checkAsset(
+  asset: GitHubAsset,
+  signature: GitHubAsset,
+  key: openpgp.PublicKey
+): Promise<SignatureCheck> {
+  const cacheKey = `signature-${asset.name}`;
+  return memoize(cacheKey, async () => {
+    const cached = getCache<CachedSignatureCheck>(
+      cacheKey,
+      SIGNATURE_CACHE_OPTIONS
+    );
+    if (cached && isSameUpload(cached, asset)) {
+      return { status: cached.status, reason: cached.reason };
+    }
+
+    let check: SignatureCheck;
+    try {
+      console.log(`Verifying signature of ${asset.name}...`);
+      check = await verifyAsset(asset, signature, key);
+    } catch (error) {
+      // Not cached, a download failure says nothing about the signature
+      return {
+        status: 'unverified',
+        reason: `could not be checked: ${describeFetchError(error)}`,
+      };
+    }
+
+    setCache<CachedSignatureCheck>(
+      cacheKey,
+      {
+        ...check,
+        digest: asset.digest,
+        size: asset.size,
+        updatedAt: asset.updated_at,
+      },
+      SIGNATURE_CACHE_OPTIONS
+    );
+    return check;
+  });
+}
+
+/**
+ * Check the signature of each of `assets`, keyed by asset name.
+ * `releaseAssets` is the full asset list of the release, searched for
+ * the `.asc` files. Throws under SIGNATURE_POLICY=strict if any asset
+ * is not verified.
+ */
+export async function verifyReleaseSignatures(
+  assets: GitHubAsset[],
+  releaseAssets: GitHubAsset[]
+): Promise<Map<string, SignatureCheck>> {
+  const key = await loadSigningKey();
+  const assetsByName = new Map(releaseAssets.map(a => [a.name, a]));
+
+  const checks = new Map<string, SignatureCheck>();
+  // One at a time, each check downloads the whole artifact
+  for (const asset of assets) {
+    const signature = assetsByName.get(`${asset.name}.asc`);
+    let check: SignatureCheck;
+    if (!signature) {
+      check = { status: 'missing-signature', reason: 'no .asc published' };
+    } else if (!key) {
+      check = { status: 'unverified', reason: 'no signing key configured' };
+    } else {
+      check = await checkAsset(asset, signature, key);
+    }
+    checks.set(asset.name, check);
+  }
+
+  const failures = [...checks].filter(
+    ([, check]) => check.status !== 'verified'
+  );
+  for (const [name, check] of failures) {
+    // A missing key is already reported once by loadSigningKey
+    if (key || check.status === 'missing-signature') {
+      console.warn(`Signature of ${name} is ${check.status}: ${check.reason}`);
+    }
+  }
+
+  if (failures.length > 0 && isStrict()) {
+    throw new Error(
+      `${failures.length} release asset(s) are not correctly signed:\n` +
+        failures
+          .map(
+            ([name, check]) => `  ${name}: ${check.status} (${check.reason})`
+          )
+          .join('\n')
+    );
+  }
+
+  return checks;
+}
@@ -0,0 +1,141 @@
+// Declarative runtime validation for upstream API payloads.
+//
+// A schema maps each field of an interface to a check. A check returns
+// null when the value is acceptable and a short reason otherwise.
+
+export type Check = (value: unknown) => string | null;
+
+export type Schema<T> = { [K in keyof T]-?: Check };
+
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+// Only the first few dropped records are logged individually
+const MAX_LOGGED_REASONS = 5;
+
+export const string: Check = value =>
+  typeof value === 'string' ? null : `expected string, got ${describe(value)}`;
+
+export const number: Check = value =>
+  typeof value === 'number' && Number.isFinite(value)
+    ? null
+    : `expected number, got ${describe(value)}`;
+
+export const boolean: Check = value =>
+  typeof value === 'boolean'
+    ? null
+    : `expected boolean, got ${describe(value)}`;
+
+/**
+ * ISO 8601 date or timestamp, e.g. "2025-01-31" or "2025-01-31T12:00:00Z"
+ */
+export const isoDate: Check = value =>
+  string(value) ??
+  (Number.isNaN(Date.parse(value as string))
+    ? `expected ISO date, got "${value}"`
+    : null);
+
+export function nullable(check: Check): Check {
+  return value => (value === null || value === undefined ? null : check(value));
+}
+
+export function arrayOf(check: Check, length?: number): Check {
+  return value => {
+    if (!Array.isArray(value)) {
+      return `expected array, got ${describe(value)}`;
+    }
+    if (length !== undefined && value.length !== length) {
+      return `expected ${length} elements, got ${value.length}`;
+    }
+    for (let i = 0; i < value.length; i++) {
+      const reason = check(value[i]);
+      if (reason) return `[${i}]: ${reason}`;
+    }
+    return null;
+  };
+}
+
+export function object<T>(schema: Schema<T>): Check {
+  return value => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return `expected object, got ${describe(value)}`;
+    }
+    for (const [field, check] of Object.entries<Check>(schema)) {
+      const reason = check((value as Record<string, unknown>)[field]);
+      if (reason) return `${field}: ${reason}`;
+    }
+    return null;
+  };
+}
+
+/**
+ * Validate a single object payload, throwing if it does not match
+ */
+export function validatePayload<T>(
+  payload: unknown,
+  schema: Schema<T>,
+  source: string
+): T {
+  const reason = object(schema)(payload);
+  if (reason) {
+    throw new ValidationError(`Unusable ${source} payload: ${reason}`);
+  }
+  return payload as T;
+}
+
+/**
+ * Validate a list payload record by record. Malformed records are dropped
+ * with a logged reason. Throws if the payload is not a list, or if it had
+ * records but none of them were usable.
+ */
+export function validateRecords<T>(
+  payload: unknown,
+  schema: Schema<T>,
+  source: string
+): T[] {
+  if (!Array.isArray(payload)) {
+    throw new ValidationError(
+      `Unusable ${source} payload: expected array, got ${describe(payload)}`
+    );
+  }
+
+  const check = object(schema);
+  const valid: T[] = [];
+  let dropped = 0;
+
+  payload.forEach((record, index) => {
+    const reason = check(record);
+    if (!reason) {
+      valid.push(record as T);
+      return;
+    }
+    dropped++;
+    if (dropped <= MAX_LOGGED_REASONS) {
+      console.warn(`Dropping invalid ${source} record #${index}: ${reason}`);
+    }
+  });
+
+  if (dropped > MAX_LOGGED_REASONS) {
+    console.warn(
+      `Dropped ${dropped} of ${payload.length} ${source} records in total`
+    );
+  }
+
+  if (payload.length > 0 && valid.length === 0) {
+    throw new ValidationError(
+      `Unusable ${source} payload: all ${payload.length} records are invalid`
+    );
+  }
+
+  return valid;
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
@@ -0,0 +1,36 @@
+// Release versions as used in GitHub tags, e.g. "3.3.0" or "3.4.0-rc.1"
+
+/**
+ * Compare two semantic versions, e.g. "3.4.0-rc.1" < "3.4.0" < "3.4.1"
+ */
+export function compareVersions(a: string, b: string): number {
+  const parse = (version: string) => {
+    const [core, prerelease] = version.split(/-(.*)/s);
+    return {
+      core: core.split('.').map(Number),
+      prerelease: prerelease ? prerelease.split('.') : [],
+    };
+  };
+  const x = parse(a);
+  const y = parse(b);
+
+  for (let i = 0; i < 3; i++) {
+    const diff = (x.core[i] ?? 0) - (y.core[i] ?? 0);
+    if (diff !== 0) return diff;
+  }
+
+  // A pre-release sorts before the release itself
+  if (x.prerelease.length === 0 || y.prerelease.length === 0) {
+    return y.prerelease.length - x.prerelease.length;
+  }
+  for (let i = 0; i < Math.max(x.prerelease.length, y.prerelease.length); i++) {
+    const [p, q] = [x.prerelease[i], y.prerelease[i]];
+    if (p === undefined) return -1;
+    if (q === undefined) return 1;
+    if (p === q) continue;
+    const [pn, qn] = [Number(p), Number(q)];
+    if (!Number.isNaN(pn) && !Number.isNaN(qn)) return pn - qn;
+    return p < q ? -1 : 1;
+  }
+  return 0;
+}
@@ -0,0 +1,42 @@
+import type { APIRoute } from 'astro';
+import { fetchChangelog } from '../lib/changelog';
+import { fetchLatestRelease, fetchReleaseArchive } from '../lib/downloads';
+import { getHealthReport, isDegraded } from '../lib/health';
+import { fetchPackageVersion, PACKAGE_CHANNELS } from '../lib/packages';
+import {
+  fetchDailyPriceStats,
+  fetchLiquidityData,
+  fetchOffers,
+  fetchProviderDailyBounds,
+  fetchProviderStats,
+} from '../lib/liquidity';
+
+// Build-time status of every upstream data source, for monitoring.
+// Endpoints are built before the pages, so every source is requested
+// here. The fetchers are memoized, the pages then reuse the data.
+export const GET: APIRoute = async () => {
+  await Promise.allSettled([
+    fetchLatestRelease(),
+    fetchReleaseArchive(),
+    fetchChangelog(),
+    ...PACKAGE_CHANNELS.map(fetchPackageVersion),
+    fetchLiquidityData(),
+    fetchDailyPriceStats(),
+    fetchOffers(),
+    fetchProviderStats(),
+    fetchProviderDailyBounds(),
+  ]);
+
+  const report = getHealthReport();
+  for (const source of report.sources) {
+    if (isDegraded(source)) {
+      console.warn(
+        `Data source ${source.id} is ${source.status}: ${source.error}`
+      );
+    }
+  }
+
+  return new Response(JSON.stringify(report, null, 2), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
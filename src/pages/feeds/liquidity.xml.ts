@@ -0,0 +1,10 @@
+import type { APIRoute } from 'astro';
+import { getLiquidityFeed, renderAtomFeed } from '../../lib/feeds';
+
+// Atom feed of market makers joining and going offline, for operators
+export const GET: APIRoute = async () => {
+  const feed = await getLiquidityFeed();
+  return new Response(renderAtomFeed(feed), {
+    headers: { 'Content-Type': 'application/atom+xml; charset=utf-8' },
+  });
+};
@@ -0,0 +1,10 @@
+import type { APIRoute } from 'astro';
+import { getReleasesFeed, renderAtomFeed } from '../../lib/feeds';
+
+// Atom feed of new releases, for users and packagers
+export const GET: APIRoute = async () => {
+  const feed = await getReleasesFeed();
+  return new Response(renderAtomFeed(feed), {
+    headers: { 'Content-Type': 'application/atom+xml; charset=utf-8' },
+  });
+};
@@ -0,0 +1,10 @@
+import type { APIRoute } from 'astro';
+import { getUpdaterManifest } from '../lib/manifests';
+
+// Update manifest for the Tauri updater built into the wallet
+export const GET: APIRoute = async () => {
+  const manifest = await getUpdaterManifest();
+  return new Response(JSON.stringify(manifest, null, 2), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
@@ -0,0 +1,10 @@
+import type { APIRoute } from 'astro';
+import { getReleaseManifest } from '../../lib/manifests';
+
+// Every downloadable file of the latest release, for scripts and packagers
+export const GET: APIRoute = async () => {
+  const manifest = await getReleaseManifest();
+  return new Response(JSON.stringify(manifest, null, 2), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+};
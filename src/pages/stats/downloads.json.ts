@@ -0,0 +1,10 @@
+import type { APIRoute } from 'astro';
+import { fetchDownloadStats } from '../../lib/download-stats';
+
+// Aggregated GitHub download counts, as shown on /stats/downloads
+export const GET: APIRoute = async () => {
+  const stats = await fetchDownloadStats();
+  return new Response(JSON.stringify(stats, null, 2), {
+    headers: { 'Content-Type': 'application/json' },
+  });
+};